@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Prompt } from '../types';
+import { downloadBlob } from '../utils/download';
+import { AutomationLane, parseAutomation, serializeAutomation } from '../utils/AutomationLane';
+import type { AutomationState } from '../utils/AutomationLane';
+
+/** Records knob movements to a lane and replays, loops or overdubs them. */
+@customElement('automation-panel')
+export class AutomationPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    .status {
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+      &.active {
+        background: linear-gradient(150deg, var(--accent-amber), var(--accent-cyan));
+        color: #021017;
+      }
+      &:disabled {
+        cursor: default;
+        opacity: 0.4;
+      }
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @state() private automationState: AutomationState = 'idle';
+  @state() private looping = false;
+  @state() private eventCount = 0;
+  @state() private length = 0;
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private readonly lane = new AutomationLane();
+
+  constructor() {
+    super();
+    this.lane.addEventListener('automation-event', ((e: CustomEvent<Prompt>) => {
+      this.dispatchEvent(new CustomEvent<Prompt>('automation-event', { detail: e.detail }));
+    }) as EventListener);
+    this.lane.addEventListener('state-changed', ((e: CustomEvent<AutomationState>) => {
+      this.automationState = e.detail;
+      this.syncLane();
+    }) as EventListener);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.lane.stop();
+  }
+
+  /** Records a prompt change made by hand. */
+  public capture(prompt: Prompt) {
+    this.lane.capture(prompt);
+  }
+
+  private syncLane() {
+    const { events, length } = this.lane.automation;
+    this.eventCount = events.length;
+    this.length = length;
+  }
+
+  private toggleLoop() {
+    this.looping = !this.looping;
+    this.lane.looping = this.looping;
+  }
+
+  private exportAutomation() {
+    const blob = new Blob([serializeAutomation(this.lane.automation)], { type: 'application/json' });
+    downloadBlob(blob, 'automation.promptdj.json');
+  }
+
+  private async importAutomation() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    if (!file) return;
+    try {
+      this.lane.automation = parseAutomation(await file.text());
+      this.syncLane();
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  private renderStatus() {
+    const seconds = (this.length / 1000).toFixed(1);
+    switch (this.automationState) {
+      case 'recording':
+        return 'Recording…';
+      case 'overdubbing':
+        return 'Overdubbing…';
+      default:
+        return this.eventCount > 0
+          ? `${this.eventCount} changes over ${seconds}s`
+          : 'Record, then move the knobs.';
+    }
+  }
+
+  override render() {
+    const state = this.automationState;
+    const empty = this.eventCount === 0;
+    return html`<button
+        class=${classMap({ active: state === 'recording' })}
+        title="Record a new lane"
+        @click=${() => this.lane.record()}>REC</button>
+      <button
+        class=${classMap({ active: state === 'overdubbing' })}
+        title="Replay the lane while recording on top of it"
+        ?disabled=${empty}
+        @click=${() => this.lane.overdub()}>OVERDUB</button>
+      <button
+        class=${classMap({ active: state === 'playing' })}
+        ?disabled=${empty}
+        @click=${() => this.lane.play()}>PLAY</button>
+      <button ?disabled=${state === 'idle'} @click=${() => this.lane.stop()}>STOP</button>
+      <button class=${classMap({ active: this.looping })} @click=${this.toggleLoop}>LOOP</button>
+      <span class="status">${this.renderStatus()}</span>
+      <button ?disabled=${empty || state !== 'idle'} @click=${this.exportAutomation}>EXPORT</button>
+      <button @click=${() => this.fileInput.click()}>IMPORT</button>
+      <input type="file" accept="application/json,.json" @change=${this.importAutomation} />`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'automation-panel': AutomationPanel;
+  }
+}
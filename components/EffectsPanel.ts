@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { matchesBinding } from '../utils/MidiDispatcher';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiLearnController } from '../utils/MidiLearnController';
+import type { ControlChange, EffectId, EffectParam, EffectSettings, MidiBinding, Tap, TapPosition } from '../types';
+import {
+  defaultEffectBindings,
+  defaultEffectSettings,
+  EFFECT_PARAMS,
+  EFFECTS,
+  formatEffectParam,
+  snapEffectParam,
+} from '../utils/effects';
+import type { EffectParamSpec } from '../utils/effects';
+
+const TAPS: { tap: Tap; label: string }[] = [
+  { tap: 'recorder', label: 'Record' },
+  { tap: 'analyser', label: 'Meter' },
+];
+
+/** Bypass switches and sliders for the master effects, each mappable to a MIDI CC. */
+@customElement('effects-panel')
+export class EffectsPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    #effects {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+      gap: 12px 24px;
+    }
+    .effect {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      &.bypassed .param {
+        opacity: 0.45;
+      }
+    }
+    .header,
+    #taps {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    h3 {
+      flex: 1;
+      margin: 0;
+      font-family: var(--font-heading);
+      font-size: 14px;
+      letter-spacing: 0.08em;
+      text-transform: uppercase;
+      color: var(--accent-cyan);
+    }
+    .param {
+      display: grid;
+      grid-template-columns: 1fr auto auto;
+      grid-template-rows: auto auto;
+      align-items: center;
+      gap: 4px 8px;
+    }
+    label {
+      font-family: var(--font-heading);
+      letter-spacing: 0.06em;
+      text-transform: uppercase;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    input {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: var(--accent-cyan);
+    }
+    .value {
+      font-size: 12px;
+      color: var(--accent-amber);
+      cursor: pointer;
+      user-select: none;
+    }
+    .cc {
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      border-radius: 999px;
+      padding: 2px 10px;
+      color: rgba(223, 226, 255, 0.72);
+      background: linear-gradient(120deg, rgba(94, 66, 146, 0.48), rgba(56, 25, 82, 0.68));
+      border: 1px solid rgba(147, 117, 231, 0.4);
+      cursor: pointer;
+      user-select: none;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+      &.learn-mode {
+        color: #ffe0c2;
+        border-color: rgba(255, 182, 117, 0.6);
+        background: linear-gradient(120deg, rgba(255, 146, 86, 0.45), rgba(255, 102, 129, 0.55));
+      }
+    }
+    #taps {
+      flex-wrap: wrap;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+      &.active {
+        background: linear-gradient(150deg, var(--accent-amber), var(--accent-cyan));
+        color: #021017;
+      }
+    }
+  `;
+
+  @property({ type: Object }) settings = defaultEffectSettings();
+  @property({ type: Object }) taps: Record<Tap, TapPosition> = { recorder: 'pre', analyser: 'post' };
+  @property({ type: Boolean }) showCC = false;
+
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  @property({ type: Object }) bindings = defaultEffectBindings();
+
+  private readonly learn = new MidiLearnController<EffectParam>(this, {
+    dispatcher: () => this.midiDispatcher,
+    binding: (param) => this.bindings.get(param)!,
+    setBinding: (param, binding) => this.setBinding(param, binding),
+    onControlChange: (change) => this.handleControlChange(change),
+  });
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learn.learning = null;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleControlChange(change: ControlChange) {
+    for (const spec of EFFECT_PARAMS) {
+      const binding = this.bindings.get(spec.param);
+      if (!binding || !matchesBinding(binding, change)) continue;
+      this.setParam(spec, spec.min + (change.value / 127) * (spec.max - spec.min));
+    }
+  }
+
+  private setBinding(param: EffectParam, binding: MidiBinding) {
+    this.bindings = new Map(this.bindings).set(param, binding);
+    this.dispatchEvent(
+      new CustomEvent<Map<EffectParam, MidiBinding>>('bindings-changed', { detail: this.bindings }),
+    );
+  }
+
+  private setParam(spec: EffectParamSpec, value: number) {
+    const snapped = snapEffectParam(spec, value);
+    if (snapped === this.settings.params[spec.param]) return;
+    this.dispatchEffectsChange({ ...this.settings, params: { ...this.settings.params, [spec.param]: snapped } });
+  }
+
+  private toggleBypass(effect: EffectId) {
+    const bypassed = { ...this.settings.bypassed, [effect]: !this.settings.bypassed[effect] };
+    this.dispatchEffectsChange({ ...this.settings, bypassed });
+  }
+
+  private dispatchEffectsChange(settings: EffectSettings) {
+    this.settings = settings;
+    this.dispatchEvent(
+      new CustomEvent<EffectSettings>('effects-changed', { detail: settings }),
+    );
+  }
+
+  private setTap(tap: Tap, position: TapPosition) {
+    if (this.taps[tap] === position) return;
+    this.taps = { ...this.taps, [tap]: position };
+    this.dispatchEvent(
+      new CustomEvent<{ tap: Tap; position: TapPosition }>('tap-changed', { detail: { tap, position } }),
+    );
+  }
+
+  override render() {
+    return html`<div id="effects">
+        ${EFFECTS.map(({ id, label }) => this.renderEffect(id, label))}
+      </div>
+      <div id="taps">
+        ${TAPS.map(({ tap, label }) => html`<span>${label}</span>
+          ${(['pre', 'post'] as const).map((position) => html`<button
+            class=${this.taps[tap] === position ? 'active' : ''}
+            @click=${() => this.setTap(tap, position)}
+            >${position.toUpperCase()}</button
+          >`)}`)}
+      </div>`;
+  }
+
+  private renderEffect(id: EffectId, label: string) {
+    const bypassed = this.settings.bypassed[id];
+    return html`<div class=${classMap({ effect: true, bypassed })}>
+      <div class="header">
+        <h3>${label}</h3>
+        <button class=${bypassed ? '' : 'active'} @click=${() => this.toggleBypass(id)}>
+          ${bypassed ? 'BYPASS' : 'ON'}
+        </button>
+      </div>
+      ${EFFECT_PARAMS.filter((spec) => spec.effect === id).map((spec) => this.renderParam(spec))}
+    </div>`;
+  }
+
+  private renderParam(spec: EffectParamSpec) {
+    const learnMode = this.learn.learning === spec.param;
+    const value = this.settings.params[spec.param];
+    return html`<div class=${classMap({ param: true, 'show-cc': this.showCC })}>
+      <label for=${spec.param}>${spec.label}</label>
+      <span
+        class="value"
+        title="Click to reset"
+        @click=${() => this.setParam(spec, spec.fallback)}
+        >${formatEffectParam(spec, value)}</span
+      >
+      <span
+        class=${classMap({ cc: true, 'learn-mode': learnMode })}
+        title="Click to learn, right-click to toggle omni"
+        @click=${() => this.learn.toggleLearn(spec.param)}
+        @contextmenu=${(e: Event) => { e.preventDefault(); this.learn.toggleOmni(spec.param); }}
+        >${this.learn.label(spec.param)}</span
+      >
+      <input
+        id=${spec.param}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(value)}
+        @input=${(e: Event) => this.setParam(spec, (e.target as HTMLInputElement).valueAsNumber)} />
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'effects-panel': EffectsPanel;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { FilteredPrompt } from '../types';
+
+/**
+ * Lists the prompts the server filtered and why. Clearing one lets it go out
+ * with the next change; retrying sends it again right away.
+ */
+@customElement('filtered-prompt-panel')
+export class FilteredPromptPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    .empty {
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    .entry {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      font-size: 12px;
+    }
+    .text {
+      font-weight: 600;
+      color: #ff9f8f;
+    }
+    .reason {
+      flex: 1;
+      color: var(--text-primary);
+    }
+    time {
+      color: var(--text-secondary);
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+    }
+  `;
+
+  @property({ type: Object }) filteredPrompts = new Map<string, FilteredPrompt>();
+
+  private dispatchText(type: 'clear-filter' | 'retry-filter', text: string) {
+    this.dispatchEvent(new CustomEvent<string>(type, { detail: text }));
+  }
+
+  private renderEntry({ text, reason, time }: FilteredPrompt) {
+    const date = new Date(time);
+    return html`<div class="entry">
+      <span class="text">${text}</span>
+      <span class="reason">${reason ?? 'No reason given'}</span>
+      <time datetime=${date.toISOString()}>${date.toLocaleTimeString()}</time>
+      <button title="Send this prompt again now" @click=${() => this.dispatchText('retry-filter', text)}>RETRY</button>
+      <button title="Stop holding this prompt back" @click=${() => this.dispatchText('clear-filter', text)}>CLEAR</button>
+    </div>`;
+  }
+
+  override render() {
+    if (this.filteredPrompts.size === 0) {
+      return html`<span class="empty">No prompts have been filtered.</span>`;
+    }
+    // Newest first.
+    const entries = [...this.filteredPrompts.values()].sort((a, b) => b.time - a.time);
+    return entries.map((entry) => this.renderEntry(entry));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'filtered-prompt-panel': FilteredPromptPanel;
+  }
+}
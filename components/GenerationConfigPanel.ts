@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { matchesBinding } from '../utils/MidiDispatcher';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiLearnController } from '../utils/MidiLearnController';
+import type { ControlChange, GenerationConfig, GenerationParam, MidiBinding } from '../types';
+import {
+  ccValueToPosition,
+  defaultParamBindings,
+  formatParam,
+  GENERATION_PARAMS,
+  getParamPosition,
+  setParamPosition,
+} from '../utils/generationConfig';
+import type { GenerationParamSpec } from '../utils/generationConfig';
+
+/** Sliders for the music generation config, each mappable to a MIDI CC. */
+@customElement('generation-config-panel')
+export class GenerationConfigPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+      gap: 10px 24px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    .param {
+      display: grid;
+      grid-template-columns: 1fr auto auto;
+      grid-template-rows: auto auto;
+      align-items: center;
+      gap: 4px 8px;
+    }
+    label {
+      font-family: var(--font-heading);
+      letter-spacing: 0.06em;
+      text-transform: uppercase;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    input {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: var(--accent-cyan);
+    }
+    .value {
+      font-size: 12px;
+      color: var(--accent-amber);
+      cursor: pointer;
+      user-select: none;
+      &.auto {
+        color: var(--text-secondary);
+      }
+    }
+    .cc {
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      border-radius: 999px;
+      padding: 2px 10px;
+      color: rgba(223, 226, 255, 0.72);
+      background: linear-gradient(120deg, rgba(94, 66, 146, 0.48), rgba(56, 25, 82, 0.68));
+      border: 1px solid rgba(147, 117, 231, 0.4);
+      cursor: pointer;
+      user-select: none;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+      &.learn-mode {
+        color: #ffe0c2;
+        border-color: rgba(255, 182, 117, 0.6);
+        background: linear-gradient(120deg, rgba(255, 146, 86, 0.45), rgba(255, 102, 129, 0.55));
+      }
+    }
+  `;
+
+  @property({ type: Object }) config: GenerationConfig = {};
+  @property({ type: Boolean }) showCC = false;
+
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  @property({ type: Object }) bindings = defaultParamBindings();
+
+  private readonly learn = new MidiLearnController<GenerationParam>(this, {
+    dispatcher: () => this.midiDispatcher,
+    binding: (param) => this.bindings.get(param)!,
+    setBinding: (param, binding) => this.setBinding(param, binding),
+    onControlChange: (change) => this.handleControlChange(change),
+  });
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learn.learning = null;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleControlChange(change: ControlChange) {
+    for (const spec of GENERATION_PARAMS) {
+      const binding = this.bindings.get(spec.param);
+      if (!binding || !matchesBinding(binding, change)) continue;
+      this.setPosition(spec, ccValueToPosition(spec, change.value));
+    }
+  }
+
+  private setBinding(param: GenerationParam, binding: MidiBinding) {
+    this.bindings = new Map(this.bindings).set(param, binding);
+    this.dispatchEvent(
+      new CustomEvent<Map<GenerationParam, MidiBinding>>('bindings-changed', { detail: this.bindings }),
+    );
+  }
+
+  private setPosition(spec: GenerationParamSpec, position: number) {
+    const config = setParamPosition(this.config, spec, position);
+    if (config[spec.param] === this.config[spec.param]) return;
+    this.dispatchConfigChange(config);
+  }
+
+  private resetParam(spec: GenerationParamSpec) {
+    if (this.config[spec.param] === undefined) return;
+    const config = { ...this.config };
+    delete config[spec.param];
+    this.dispatchConfigChange(config);
+  }
+
+  private dispatchConfigChange(config: GenerationConfig) {
+    this.config = config;
+    this.dispatchEvent(
+      new CustomEvent<GenerationConfig>('config-changed', { detail: config }),
+    );
+  }
+
+  override render() {
+    return GENERATION_PARAMS.map((spec) => this.renderParam(spec));
+  }
+
+  private renderParam(spec: GenerationParamSpec) {
+    const isAuto = this.config[spec.param] === undefined;
+    const learnMode = this.learn.learning === spec.param;
+    return html`<div class=${classMap({ param: true, 'show-cc': this.showCC })}>
+      <label for=${spec.param}>${spec.label}</label>
+      <span
+        class=${classMap({ value: true, auto: isAuto })}
+        title="Click to let the model choose"
+        @click=${() => this.resetParam(spec)}
+        >${formatParam(this.config, spec)}</span
+      >
+      <span
+        class=${classMap({ cc: true, 'learn-mode': learnMode })}
+        title="Click to learn, right-click to toggle omni"
+        @click=${() => this.learn.toggleLearn(spec.param)}
+        @contextmenu=${(e: Event) => { e.preventDefault(); this.learn.toggleOmni(spec.param); }}
+        >${this.learn.label(spec.param)}</span
+      >
+      <input
+        id=${spec.param}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(getParamPosition(this.config, spec))}
+        @input=${(e: Event) => this.setPosition(spec, (e.target as HTMLInputElement).valueAsNumber)} />
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-config-panel': GenerationConfigPanel;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { matchesBinding } from '../utils/MidiDispatcher';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiLearnController } from '../utils/MidiLearnController';
+import { defaultDeckBindings } from '../utils/midiProfiles';
+import type { ControlChange, DeckControl, MidiBinding } from '../types';
+
+type HistoryControl = Extract<DeckControl, 'undo' | 'redo'>;
+
+const HISTORY_CONTROLS: HistoryControl[] = ['undo', 'redo'];
+
+/** The detail of a `binding-changed` event. */
+export interface HistoryBindingChange {
+  control: HistoryControl;
+  binding: MidiBinding;
+}
+
+/**
+ * Undo and redo buttons, each of which a CC button can press. A press is the
+ * CC crossing from the lower half of its range to the upper, so a pad that
+ * sends 127 then 0 steps once.
+ */
+@customElement('history-buttons')
+export class HistoryButtons extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    button {
+      font: inherit;
+      font-size: 11px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 12px;
+      &:disabled {
+        cursor: default;
+        opacity: 0.4;
+      }
+    }
+    .cc {
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      border-radius: 999px;
+      padding: 2px 10px;
+      color: rgba(223, 226, 255, 0.72);
+      background: linear-gradient(120deg, rgba(94, 66, 146, 0.48), rgba(56, 25, 82, 0.68));
+      border: 1px solid rgba(147, 117, 231, 0.4);
+      cursor: pointer;
+      user-select: none;
+      &.learn-mode {
+        color: #ffe0c2;
+        border-color: rgba(255, 182, 117, 0.6);
+        background: linear-gradient(120deg, rgba(255, 146, 86, 0.45), rgba(255, 102, 129, 0.55));
+      }
+    }
+  `;
+
+  @property({ type: Boolean }) canUndo = false;
+  @property({ type: Boolean }) canRedo = false;
+  @property({ type: Object }) bindings: Record<HistoryControl, MidiBinding> = {
+    undo: defaultDeckBindings().get('undo')!,
+    redo: defaultDeckBindings().get('redo')!,
+  };
+  @property({ type: Boolean }) showCC = false;
+
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  private readonly learn = new MidiLearnController<HistoryControl>(this, {
+    dispatcher: () => this.midiDispatcher,
+    binding: (control) => this.bindings[control],
+    setBinding: (control, binding) => this.setBinding(control, binding),
+    onControlChange: (change) => this.handleControlChange(change),
+  });
+
+  /** Whether each control's CC was last in the upper half of its range. */
+  private held: Record<HistoryControl, boolean> = { undo: false, redo: false };
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learn.learning = null;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleControlChange(change: ControlChange) {
+    for (const control of HISTORY_CONTROLS) {
+      if (!matchesBinding(this.bindings[control], change)) continue;
+      const held = change.value >= 64;
+      if (held && !this.held[control]) this.press(control);
+      this.held[control] = held;
+    }
+  }
+
+  private press(control: HistoryControl) {
+    this.dispatchEvent(new CustomEvent(control));
+  }
+
+  private setBinding(control: HistoryControl, binding: MidiBinding) {
+    this.dispatchEvent(
+      new CustomEvent<HistoryBindingChange>('binding-changed', { detail: { control, binding } }),
+    );
+  }
+
+  private renderCC(control: HistoryControl) {
+    if (!this.showCC) return '';
+    return html`<span
+      class=${classMap({ cc: true, 'learn-mode': this.learn.learning === control })}
+      title="Click to learn, right-click to toggle omni"
+      @click=${() => this.learn.toggleLearn(control)}
+      @contextmenu=${(e: Event) => { e.preventDefault(); this.learn.toggleOmni(control); }}
+      >${this.learn.label(control)}</span
+    >`;
+  }
+
+  override render() {
+    return html`<button
+        title="Undo the last prompt change (Ctrl+Z)"
+        ?disabled=${!this.canUndo}
+        @click=${() => this.press('undo')}
+        >UNDO</button
+      >
+      ${this.renderCC('undo')}
+      <button
+        title="Redo the prompt change just undone (Ctrl+Shift+Z)"
+        ?disabled=${!this.canRedo}
+        @click=${() => this.press('redo')}
+        >REDO</button
+      >
+      ${this.renderCC('redo')}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'history-buttons': HistoryButtons;
+  }
+}
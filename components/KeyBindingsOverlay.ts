@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { KeyCommand, Prompt } from '../types';
+import { DECK_KEY_COMMAND_LABELS, DECK_KEY_COMMANDS, defaultKeyBindings, formatKey, rebindKey } from '../utils/keyBindings';
+
+/** Keys that only change other keys, and can't be bound on their own. */
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/** Lists the computer key bindings and rebinds a key by pressing it. */
+@customElement('key-bindings-overlay')
+export class KeyBindingsOverlay extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 10;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 8, 14, 0.6);
+      backdrop-filter: blur(4px);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    #panel {
+      max-height: 80vh;
+      overflow-y: auto;
+      padding: clamp(16px, 3vmin, 24px);
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+      box-shadow: 0 26px 50px rgba(0, 8, 16, 0.6);
+    }
+    h2 {
+      margin: 0 0 4px;
+      font-size: 14px;
+      letter-spacing: 0.08em;
+      color: var(--accent-cyan);
+    }
+    p {
+      margin: 0 0 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    table {
+      border-collapse: collapse;
+      font-size: 12px;
+      color: var(--text-primary);
+    }
+    th {
+      text-align: left;
+      font-weight: 600;
+      color: var(--text-secondary);
+    }
+    th,
+    td {
+      padding: 4px 10px 4px 0;
+    }
+    .prompt-text {
+      max-width: 180px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+      &.key {
+        min-width: 56px;
+      }
+      &.learning {
+        color: #ffe0c2;
+        border-color: rgba(255, 182, 117, 0.6);
+        background: linear-gradient(120deg, rgba(255, 146, 86, 0.45), rgba(255, 102, 129, 0.55));
+      }
+    }
+    #actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      margin-top: 12px;
+    }
+  `;
+
+  @property({ type: Object }) bindings = new Map<KeyCommand, string>();
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+
+  /** The command waiting for a key press, if any. */
+  @state() private learning: KeyCommand | null = null;
+
+  constructor() {
+    super();
+    // Clicks on the panel stop short of the backdrop.
+    this.addEventListener('click', () => this.close());
+  }
+
+  /** Catches the next key press for the command being learned. */
+  private handleKeyDown(e: KeyboardEvent) {
+    // Keep keys pressed in here away from the deck.
+    e.stopPropagation();
+    if (!this.learning) {
+      if (e.key === 'Escape') this.close();
+      return;
+    }
+    if (MODIFIER_KEYS.includes(e.key)) return;
+    e.preventDefault();
+    if (e.key !== 'Escape') {
+      const code = e.key === 'Backspace' || e.key === 'Delete' ? '' : e.code;
+      this.dispatchBindings(rebindKey(this.bindings, this.learning, code));
+    }
+    this.learning = null;
+  }
+
+  private learn(command: KeyCommand) {
+    this.learning = this.learning === command ? null : command;
+  }
+
+  private resetBindings() {
+    this.learning = null;
+    this.dispatchBindings(defaultKeyBindings());
+  }
+
+  private dispatchBindings(bindings: Map<KeyCommand, string>) {
+    this.dispatchEvent(new CustomEvent<Map<KeyCommand, string>>('bindings-changed', { detail: bindings }));
+  }
+
+  private close() {
+    this.learning = null;
+    this.dispatchEvent(new CustomEvent('close'));
+  }
+
+  private renderKey(command: KeyCommand) {
+    const code = this.bindings.get(command);
+    const learning = this.learning === command;
+    return html`<button
+      class=${learning ? 'key learning' : 'key'}
+      title="Click, then press a key. Backspace unbinds."
+      @click=${() => this.learn(command)}>
+      ${learning ? 'Press…' : code ? formatKey(code) : '—'}
+    </button>`;
+  }
+
+  override render() {
+    return html`<div
+      id="panel"
+      role="dialog"
+      aria-label="Key bindings"
+      @keydown=${this.handleKeyDown}
+      @click=${(e: Event) => e.stopPropagation()}>
+      <h2>KEYS</h2>
+      <p>Hold shift while nudging or scrolling a knob for fine steps.</p>
+      <table>
+        ${DECK_KEY_COMMANDS.map((command) => html`<tr>
+          <td colspan="2">${DECK_KEY_COMMAND_LABELS[command]}</td>
+          <td>${this.renderKey(command)}</td>
+        </tr>`)}
+        <tr><th>Prompt</th><th>Select</th><th>Toggle</th></tr>
+        ${[...this.prompts.values()].map((prompt, slot) => html`<tr>
+          <td class="prompt-text">${prompt.text}</td>
+          <td>${this.renderKey(`select-${slot}`)}</td>
+          <td>${this.renderKey(`toggle-${slot}`)}</td>
+        </tr>`)}
+      </table>
+      <div id="actions">
+        <button @click=${this.resetBindings}>RESET</button>
+        <button @click=${this.close}>CLOSE</button>
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'key-bindings-overlay': KeyBindingsOverlay;
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+
+import './ScopeKnob';
+import type { ScopeCoupling, ScopeMode } from '../types';
+import type { AudioAnalyser } from '../utils/AudioAnalyser';
+import {
+  couple,
+  findTrigger,
+  formatTimeDiv,
+  formatVoltsDiv,
+  SCOPE_DIVS_X,
+  SCOPE_DIVS_Y,
+  TIME_DIVS,
+  VOLTS_DIVS,
+} from '../utils/oscilloscope';
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 640;
+const DIV_WIDTH = CANVAS_WIDTH / SCOPE_DIVS_X;
+const DIV_HEIGHT = CANVAS_HEIGHT / SCOPE_DIVS_Y;
+
+/** How much of the last frame fades each frame, like the phosphor dimming. */
+const PERSISTENCE_FADE = 0.35;
+
+const COUPLINGS: ScopeCoupling[] = ['ac', 'dc', 'gnd'];
+const MODES: { mode: ScopeMode; label: string }[] = [
+  { mode: 'yt', label: 'Y-T' },
+  { mode: 'xy', label: 'X-Y' },
+];
+
+/** The output on a CRT, with the front-panel controls of a bench oscilloscope. */
+@customElement('oscilloscope-display')
+export class OscilloscopeDisplay extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      justify-content: center;
+      gap: 18px 28px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    #screen {
+      position: relative;
+      flex: 1 1 360px;
+      max-width: 560px;
+      aspect-ratio: ${SCOPE_DIVS_X} / ${SCOPE_DIVS_Y};
+      border-radius: 14px;
+      overflow: hidden;
+      background-color: #02121a;
+      background-image:
+        linear-gradient(rgba(111, 232, 255, 0.12) 1px, transparent 1px),
+        linear-gradient(90deg, rgba(111, 232, 255, 0.12) 1px, transparent 1px);
+      background-size: calc(100% / ${SCOPE_DIVS_X}) calc(100% / ${SCOPE_DIVS_Y});
+      box-shadow: inset 0 0 40px rgba(0, 0, 0, 0.8);
+    }
+    canvas {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+    }
+    #panel {
+      display: grid;
+      grid-template-columns: repeat(3, auto);
+      gap: 14px 18px;
+      align-items: start;
+    }
+    .switch {
+      grid-column: 1 / -1;
+      display: flex;
+      gap: 6px;
+      justify-content: center;
+    }
+    button {
+      font: inherit;
+      font-size: 11px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      text-transform: uppercase;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 12px;
+      &.active {
+        background: linear-gradient(150deg, var(--accent-amber), var(--accent-cyan));
+        color: #021017;
+      }
+    }
+  `;
+
+  @property({ type: Object }) analyser: AudioAnalyser | null = null;
+  /** Whether the trace is live, e.g. while the deck plays. */
+  @property({ type: Boolean }) active = false;
+
+  @state() private timeDiv = TIME_DIVS.indexOf(2);
+  @state() private voltsDiv = VOLTS_DIVS.indexOf(0.1);
+  @state() private positionX = 0;
+  @state() private positionY = 0;
+  @state() private traceFocus = 0.8;
+  @state() private intensity = 0.8;
+  @state() private coupling: ScopeCoupling = 'ac';
+  @state() private mode: ScopeMode = 'yt';
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private rafId: number | null = null;
+  private leftData = new Float32Array(0);
+  private rightData = new Float32Array(0);
+  private monoData = new Float32Array(0);
+
+  constructor() {
+    super();
+    this.draw = this.draw.bind(this);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stop();
+  }
+
+  override updated() {
+    if (this.active && this.analyser) {
+      if (this.rafId === null) this.rafId = requestAnimationFrame(this.draw);
+    } else {
+      this.stop();
+      // Settle on the resting trace, so control changes still show.
+      this.drawFrame();
+    }
+  }
+
+  private stop() {
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  private draw() {
+    this.rafId = requestAnimationFrame(this.draw);
+    this.drawFrame();
+  }
+
+  /** Reads both channels, or silence when there's nothing to read. */
+  private readChannels() {
+    const size = this.analyser?.left.fftSize ?? 2;
+    if (this.leftData.length !== size) {
+      this.leftData = new Float32Array(size);
+      this.rightData = new Float32Array(size);
+      this.monoData = new Float32Array(size);
+    }
+    if (this.active && this.analyser) {
+      this.analyser.left.getFloatTimeDomainData(this.leftData);
+      this.analyser.right.getFloatTimeDomainData(this.rightData);
+    } else {
+      this.leftData.fill(0);
+      this.rightData.fill(0);
+    }
+    return [couple(this.leftData, this.coupling), couple(this.rightData, this.coupling)];
+  }
+
+  private drawFrame() {
+    const ctx = this.canvas?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = `rgba(0, 0, 0, ${this.active ? PERSISTENCE_FADE : 1})`;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.globalCompositeOperation = 'source-over';
+
+    // A sharp focus draws a thin line, a soft one a wide blurry glow.
+    const color = `rgba(111, 232, 255, ${this.intensity})`;
+    ctx.strokeStyle = color;
+    ctx.shadowColor = color;
+    ctx.lineWidth = 1 + (1 - this.traceFocus) * 5;
+    ctx.shadowBlur = 2 + (1 - this.traceFocus) * 14;
+    ctx.lineJoin = 'round';
+
+    const [left, right] = this.readChannels();
+    const volts = VOLTS_DIVS[this.voltsDiv];
+    const sampleRate = this.analyser?.left.context.sampleRate ?? 48000;
+    const length = Math.min(left.length, Math.round((TIME_DIVS[this.timeDiv] / 1000) * SCOPE_DIVS_X * sampleRate));
+
+    ctx.beginPath();
+    if (this.mode === 'xy') {
+      const start = left.length - length;
+      for (let i = start; i < left.length; i++) {
+        const x = CANVAS_WIDTH / 2 + (left[i] / volts + this.positionX) * DIV_WIDTH;
+        const y = CANVAS_HEIGHT / 2 - (right[i] / volts + this.positionY) * DIV_HEIGHT;
+        i === start ? ctx.moveTo(x, y) : ctx.lineTo(x, y);
+      }
+    } else {
+      const mono = this.monoData;
+      for (let i = 0; i < mono.length; i++) mono[i] = (left[i] + right[i]) / 2;
+      const start = findTrigger(mono, length);
+      // Long sweeps have far more samples than pixels.
+      const stride = Math.max(1, Math.floor(length / CANVAS_WIDTH));
+      for (let i = 0; i < length; i += stride) {
+        const x = (i / length) * CANVAS_WIDTH + this.positionX * DIV_WIDTH;
+        const y = CANVAS_HEIGHT / 2 - (mono[start + i] / volts + this.positionY) * DIV_HEIGHT;
+        i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+  }
+
+  override render() {
+    return html`<div id="screen">
+        <canvas width=${CANVAS_WIDTH} height=${CANVAS_HEIGHT}></canvas>
+      </div>
+      <div id="panel">
+        <scope-knob
+          label="Time/div"
+          .display=${formatTimeDiv(TIME_DIVS[this.timeDiv])}
+          .value=${this.timeDiv}
+          max=${TIME_DIVS.length - 1}
+          step="1"
+          .defaultValue=${TIME_DIVS.indexOf(2)}
+          @input=${(e: CustomEvent<number>) => { this.timeDiv = e.detail; }}></scope-knob>
+        <scope-knob
+          label="Volts/div"
+          .display=${formatVoltsDiv(VOLTS_DIVS[this.voltsDiv])}
+          .value=${this.voltsDiv}
+          max=${VOLTS_DIVS.length - 1}
+          step="1"
+          .defaultValue=${VOLTS_DIVS.indexOf(0.1)}
+          @input=${(e: CustomEvent<number>) => { this.voltsDiv = e.detail; }}></scope-knob>
+        <scope-knob
+          label="Focus"
+          .display=${`${Math.round(this.traceFocus * 100)}%`}
+          .value=${this.traceFocus}
+          min="0"
+          max="1"
+          step="0.05"
+          .defaultValue=${0.8}
+          @input=${(e: CustomEvent<number>) => { this.traceFocus = e.detail; }}></scope-knob>
+        <scope-knob
+          label="Position X"
+          .display=${this.positionX.toFixed(1)}
+          .value=${this.positionX}
+          min=${-SCOPE_DIVS_X / 2}
+          max=${SCOPE_DIVS_X / 2}
+          step="0.1"
+          @input=${(e: CustomEvent<number>) => { this.positionX = e.detail; }}></scope-knob>
+        <scope-knob
+          label="Position Y"
+          .display=${this.positionY.toFixed(1)}
+          .value=${this.positionY}
+          min=${-SCOPE_DIVS_Y / 2}
+          max=${SCOPE_DIVS_Y / 2}
+          step="0.1"
+          @input=${(e: CustomEvent<number>) => { this.positionY = e.detail; }}></scope-knob>
+        <scope-knob
+          label="Intensity"
+          .display=${`${Math.round(this.intensity * 100)}%`}
+          .value=${this.intensity}
+          min="0.1"
+          max="1"
+          step="0.05"
+          .defaultValue=${0.8}
+          @input=${(e: CustomEvent<number>) => { this.intensity = e.detail; }}></scope-knob>
+        <div class="switch">
+          ${COUPLINGS.map((coupling) => html`<button
+            class=${this.coupling === coupling ? 'active' : ''}
+            @click=${() => { this.coupling = coupling; }}
+            >${coupling}</button
+          >`)}
+        </div>
+        <div class="switch">
+          ${MODES.map(({ mode, label }) => html`<button
+            class=${this.mode === mode ? 'active' : ''}
+            @click=${() => { this.mode = mode; }}
+            >${label}</button
+          >`)}
+        </div>
+      </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'oscilloscope-display': OscilloscopeDisplay;
+  }
+}
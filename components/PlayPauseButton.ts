@@ -6,6 +6,17 @@ import { svg, css, html, LitElement } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import type { PlaybackState } from '../types';
 
+/** What pressing the button does, or what it's waiting on, in each state. */
+const LABELS: Record<PlaybackState, string> = {
+  stopped: 'Play',
+  connecting: 'Connecting…',
+  buffering: 'Buffering…',
+  playing: 'Pause',
+  paused: 'Resume',
+  reconnecting: 'Reconnecting…',
+  error: 'Playback failed. Press to try again',
+};
+
 @customElement('play-pause-button')
 export class PlayPauseButton extends LitElement {
 
@@ -46,6 +57,24 @@ export class PlayPauseButton extends LitElement {
       transform-origin: center;
       transform-box: fill-box;
     }
+    .connecting {
+      stroke-dasharray: 4 8;
+      stroke-dashoffset: 0;
+      opacity: 0.7;
+      animation-duration: 3s;
+    }
+    .reconnecting {
+      stroke: var(--accent-amber, #fac560);
+      stroke-dasharray: 12 10;
+      stroke-dashoffset: 0;
+      animation-duration: 2s;
+    }
+    .resume {
+      animation: breathe ease-in-out 2s infinite;
+    }
+    @keyframes breathe {
+      50% { opacity: 0.45; }
+    }
     @keyframes spin {
       from { transform: rotate(0deg); }
       to { transform: rotate(359deg); }
@@ -110,24 +139,46 @@ export class PlayPauseButton extends LitElement {
     </g>`;
   }
 
-  private renderLoading() {
+  /** The play icon, breathing while paused so it reads apart from stopped. */
+  private renderResume() {
+    return svg`<g class="resume">${this.renderPlay()}</g>`;
+  }
+
+  private renderLoader(className = '') {
     return svg`<g transform="translate(80 80)">
-      <circle class="loader" cx="0" cy="0" r="28" fill="none" />
+      <circle class="loader ${className}" cx="0" cy="0" r="28" fill="none" />
+    </g>`;
+  }
+
+  private renderError() {
+    return svg`<g transform="translate(80 80)" fill="var(--accent-pink, #fe4d92)">
+      <rect x="-5" y="-26" width="10" height="34" rx="4" />
+      <circle cx="0" cy="20" r="6" />
     </g>`;
   }
 
   private renderIcon() {
-    if (this.playbackState === 'playing') {
-      return this.renderPause();
-    } else if (this.playbackState === 'loading') {
-      return this.renderLoading();
-    } else {
-      return this.renderPlay();
+    switch (this.playbackState) {
+      case 'stopped':
+        return this.renderPlay();
+      case 'connecting':
+        return this.renderLoader('connecting');
+      case 'buffering':
+        return this.renderLoader();
+      case 'playing':
+        return this.renderPause();
+      case 'paused':
+        return this.renderResume();
+      case 'reconnecting':
+        return this.renderLoader('reconnecting');
+      case 'error':
+        return this.renderError();
     }
   }
 
   override render() {
-    return html`${this.renderSvg()}<div class="hitbox"></div>`;
+    const label = LABELS[this.playbackState];
+    return html`${this.renderSvg()}<div class="hitbox" role="button" aria-label=${label} title=${label}></div>`;
   }
 }
 
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+
+import type { EffectSettings, Preset, Prompt } from '../types';
+import { downloadBlob } from '../utils/download';
+import { defaultEffectSettings } from '../utils/effects';
+import {
+  createPreset,
+  deletePreset,
+  loadPresets,
+  parsePreset,
+  presetToPrompts,
+  savePreset,
+  serializePreset,
+} from '../utils/presets';
+
+/** Saves, loads, imports and exports named presets of the prompt grid and effects. */
+@customElement('preset-panel')
+export class PresetPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    form,
+    li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    input[type='text'] {
+      flex: 1;
+      font: inherit;
+      padding: 6px 14px;
+      border-radius: 999px;
+      border: 1px solid rgba(97, 164, 198, 0.3);
+      background: rgba(9, 32, 48, 0.92);
+      color: var(--text-primary);
+      outline: none;
+      &:focus {
+        border-color: rgba(111, 232, 255, 0.6);
+      }
+    }
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .count,
+    .empty {
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+    }
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Object }) effects = defaultEffectSettings();
+
+  @state() private presets: Preset[] = loadPresets();
+  @state() private name = '';
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  private handleSave(e: Event) {
+    e.preventDefault();
+    const name = this.name.trim();
+    if (!name) return;
+    this.presets = savePreset(createPreset(name, this.prompts, this.effects));
+    this.name = '';
+  }
+
+  private loadPreset(preset: Preset) {
+    this.dispatchEvent(
+      new CustomEvent<Map<string, Prompt>>('preset-loaded', { detail: presetToPrompts(preset) }),
+    );
+    if (preset.effects) {
+      this.dispatchEvent(new CustomEvent<EffectSettings>('effects-loaded', { detail: preset.effects }));
+    }
+  }
+
+  private deletePreset(preset: Preset) {
+    this.presets = deletePreset(preset.name);
+  }
+
+  private exportPreset(preset: Preset) {
+    const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+    const filename = `${preset.name.replace(/[^\w-]+/g, '-').toLowerCase()}.promptdj.json`;
+    downloadBlob(blob, filename);
+  }
+
+  private async importPreset() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePreset(await file.text());
+      this.presets = savePreset(preset);
+      this.loadPreset(preset);
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  override render() {
+    return html`<form @submit=${this.handleSave}>
+        <input
+          type="text"
+          placeholder="Preset name"
+          .value=${this.name}
+          @input=${(e: Event) => { this.name = (e.target as HTMLInputElement).value; }} />
+        <button type="submit">SAVE</button>
+        <button type="button" @click=${() => this.fileInput.click()}>IMPORT</button>
+        <input type="file" accept="application/json,.json" @change=${this.importPreset} />
+      </form>
+      ${this.presets.length > 0
+        ? html`<ul>${this.presets.map((preset) => this.renderPreset(preset))}</ul>`
+        : html`<span class="empty">No saved presets yet.</span>`}`;
+  }
+
+  private renderPreset(preset: Preset) {
+    return html`<li>
+      <span class="name">${preset.name}</span>
+      <span class="count">${preset.prompts.length} prompts</span>
+      <button @click=${() => this.loadPreset(preset)}>LOAD</button>
+      <button @click=${() => this.exportPreset(preset)}>EXPORT</button>
+      <button @click=${() => this.deletePreset(preset)}>DELETE</button>
+    </li>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'preset-panel': PresetPanel;
+  }
+}
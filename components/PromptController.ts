@@ -3,16 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 import './WeightKnob';
 import type { WeightKnob } from './WeightKnob';
 
+import { formatNote, matchesBinding, matchesNote } from '../utils/MidiDispatcher';
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import { MidiLearnController } from '../utils/MidiLearnController';
+import type { Prompt, ControlChange, LevelBand, NoteBinding, NoteMessage, NoteMode } from '../types';
 
-/** A single prompt input associated with a MIDI CC. */
+const NOTE_MODES: NoteMode[] = ['toggle', 'gate', 'velocity'];
+
+const HALO_BANDS: LevelBand[] = ['full', 'bass', 'mid', 'high'];
+
+/** The drag data type that carries the id of a prompt being reordered. */
+export const PROMPT_DRAG_TYPE = 'application/x-prompt-id';
+
+/** A single prompt input associated with a MIDI CC and, optionally, a note. */
 @customElement('prompt-controller')
 export class PromptController extends LitElement {
   static override styles = css`
@@ -79,6 +88,66 @@ export class PromptController extends LitElement {
         visibility: visible;
       }
     }
+    #note {
+      position: absolute;
+      top: clamp(12px, 1.8vmin, 16px);
+      right: clamp(16px, 2.6vmin, 22px);
+      font-family: 'Inter', var(--font-family);
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      font-size: clamp(10px, 1.2vmin, 11px);
+      border-radius: 999px;
+      padding: 6px 14px;
+      color: rgba(205, 245, 255, 0.78);
+      background: linear-gradient(120deg, rgba(42, 118, 146, 0.48), rgba(18, 62, 82, 0.68));
+      border: 1px solid rgba(111, 232, 255, 0.35);
+      cursor: pointer;
+      visibility: hidden;
+      user-select: none;
+      .show-cc & {
+        visibility: visible;
+      }
+    }
+    #handle,
+    #remove,
+    #band {
+      position: absolute;
+      bottom: clamp(10px, 1.6vmin, 14px);
+      font-size: 14px;
+      line-height: 1;
+      padding: 4px 8px;
+      border-radius: 999px;
+      color: var(--text-secondary);
+      background: rgba(4, 22, 33, 0.6);
+      border: 1px solid rgba(38, 94, 126, 0.5);
+      opacity: 0;
+      transition: opacity 0.2s ease, color 0.2s ease;
+      user-select: none;
+      .prompt:hover & {
+        opacity: 1;
+      }
+    }
+    #handle {
+      left: clamp(16px, 2.6vmin, 22px);
+      cursor: grab;
+    }
+    #band {
+      left: 50%;
+      transform: translateX(-50%);
+      font: inherit;
+      font-size: 10px;
+      letter-spacing: 0.06em;
+      text-transform: uppercase;
+      cursor: pointer;
+    }
+    #remove {
+      right: clamp(16px, 2.6vmin, 22px);
+      font: inherit;
+      cursor: pointer;
+      &:hover {
+        color: #ff9f8f;
+      }
+    }
     #text {
       font-weight: 600;
       font-size: clamp(14px, 1.5vmin, 17px);
@@ -103,6 +172,27 @@ export class PromptController extends LitElement {
         box-shadow: 0 0 0 3px rgba(111, 232, 255, 0.25);
       }
     }
+    #keys {
+      position: absolute;
+      top: clamp(12px, 1.8vmin, 16px);
+      left: 50%;
+      transform: translateX(-50%);
+      font-size: clamp(10px, 1.2vmin, 11px);
+      letter-spacing: 0.04em;
+      border-radius: 999px;
+      padding: 4px 10px;
+      color: var(--accent-amber);
+      background: rgba(4, 22, 33, 0.6);
+      border: 1px solid rgba(250, 197, 96, 0.4);
+      user-select: none;
+    }
+    :host([selected]) .prompt {
+      border-color: var(--accent-amber);
+      box-shadow:
+        0 0 0 2px rgba(250, 197, 96, 0.35),
+        inset 0 -18px 40px rgba(0, 10, 18, 0.7),
+        0 26px 50px rgba(0, 8, 16, 0.45);
+    }
     :host([filtered]) {
       weight-knob { 
         opacity: 0.5;
@@ -129,11 +219,18 @@ export class PromptController extends LitElement {
   @property({ type: Number }) weight = 0;
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
+  @property({ type: Boolean }) morphing = false;
+  /** Marks the prompt the keyboard's nudge keys move. */
+  @property({ type: Boolean, reflect: true }) selected = false;
+  /** The computer keys bound to this slot, shown while keyboard mode is on. */
+  @property({ type: String }) keyHint = '';
 
   @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0; // Not currently used
+  /** The channel the CC is matched on, or null to match any channel. */
+  @property({ type: Number }) channel: number | null = null;
+
+  @property({ type: Object }) note: NoteBinding | null = null;
 
-  @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
 
   @query('weight-knob') private weightInput!: WeightKnob;
@@ -142,25 +239,85 @@ export class PromptController extends LitElement {
   @property({ type: Object })
   midiDispatcher: MidiDispatcher | null = null;
 
-  @property({ type: Number }) audioLevel = 0;
+  /** The output level in each band, for the halo to pulse with. */
+  @property({ type: Object }) levels: Record<LevelBand, number> = { full: 0, bass: 0, mid: 0, high: 0 };
+  /** The band the halo follows. */
+  @state() private haloBand: LevelBand = 'full';
 
   private lastValidText!: string;
 
+  private readonly learn = new MidiLearnController<'weight'>(this, {
+    dispatcher: () => this.midiDispatcher,
+    binding: () => this,
+    setBinding: (_, { cc, channel }) => {
+      this.cc = cc;
+      this.channel = channel;
+      this.dispatchPromptChange();
+    },
+    onControlChange: (change) => this.handleControlChange(change),
+  });
+
+  /** The weight a toggled or gated note turns the prompt back on to. */
+  private noteOnWeight = 1;
+
+  constructor() {
+    super();
+    this.handleNote = this.handleNote.bind(this);
+  }
+
   override connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
-      }
-    });
+    this.midiDispatcher?.addEventListener('note-message', this.handleNote);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('note-message', this.handleNote);
+  }
+
+  private handleControlChange(change: ControlChange) {
+    if (!matchesBinding(this, change)) return;
+    this.weight = (change.value / 127) * 2;
+    this.dispatchPromptChange();
+  }
+
+  private handleNote(e: Event) {
+    const message = (e as CustomEvent<NoteMessage>).detail;
+    const { note, channel, velocity } = message;
+    const isNoteOn = velocity > 0;
+    // A note learns while the CC does, and whichever comes first is kept.
+    if (this.learn.learning) {
+      if (!isNoteOn) return;
+      this.note = { note, channel, mode: this.note?.mode ?? 'toggle' };
+      this.learn.learning = null;
+      this.dispatchPromptChange();
+      return;
+    }
+    if (!this.note || !matchesNote(this.note, message)) return;
+    switch (this.note.mode) {
+      case 'toggle':
+        if (!isNoteOn) return;
+        this.setNoteGate(this.weight === 0);
+        break;
+      case 'gate':
+        this.setNoteGate(isNoteOn);
+        break;
+      case 'velocity':
+        if (!isNoteOn) return;
+        this.weight = (velocity / 127) * 2;
+        break;
+    }
+    this.dispatchPromptChange();
+  }
+
+  /** Turns the prompt on to its last weight, or off while remembering it. */
+  private setNoteGate(on: boolean) {
+    if (on) {
+      this.weight = this.noteOnWeight;
+    } else if (this.weight > 0) {
+      this.noteOnWeight = this.weight;
+      this.weight = 0;
+    }
   }
 
   override firstUpdated() {
@@ -175,7 +332,7 @@ export class PromptController extends LitElement {
 
   update(changedProperties: Map<string, unknown>) {
     if (changedProperties.has('showCC') && !this.showCC) {
-      this.learnMode = false;
+      this.learn.learning = null;
     }
     if (changedProperties.has('text') && this.textInput) {
       this.textInput.textContent = this.text;
@@ -191,7 +348,9 @@ export class PromptController extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          channel: this.channel,
           color: this.color,
+          note: this.note,
         },
       }),
     );
@@ -242,14 +401,47 @@ export class PromptController extends LitElement {
     this.dispatchPromptChange();
   }
 
-  private toggleLearnMode() {
-    this.learnMode = !this.learnMode;
+  private cycleNoteMode() {
+    if (!this.note) return;
+    const mode = NOTE_MODES[(NOTE_MODES.indexOf(this.note.mode) + 1) % NOTE_MODES.length];
+    this.note = { ...this.note, mode };
+    this.dispatchPromptChange();
+  }
+
+  private clearNote(e: Event) {
+    e.preventDefault();
+    this.note = null;
+    this.dispatchPromptChange();
+  }
+
+  private handleDragStart(e: DragEvent) {
+    if (!e.dataTransfer) return;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData(PROMPT_DRAG_TYPE, this.promptId);
+    // Drag the whole card by its handle, which sits in the bottom-left corner.
+    const card = this.shadowRoot!.querySelector<HTMLElement>('.prompt')!;
+    e.dataTransfer.setDragImage(card, 24, card.offsetHeight - 24);
+  }
+
+  private cycleHaloBand() {
+    this.haloBand = HALO_BANDS[(HALO_BANDS.indexOf(this.haloBand) + 1) % HALO_BANDS.length];
+  }
+
+  private removePrompt() {
+    this.dispatchEvent(
+      new CustomEvent<string>('prompt-removed', { detail: this.promptId }),
+    );
+  }
+
+  private toggleOmni(e: Event) {
+    e.preventDefault();
+    this.learn.toggleOmni('weight');
   }
 
   override render() {
     const classes = classMap({
       'prompt': true,
-      'learn-mode': this.learnMode,
+      'learn-mode': this.learn.learning !== null,
       'show-cc': this.showCC,
     });
     return html`<div class=${classes}>
@@ -257,7 +449,8 @@ export class PromptController extends LitElement {
         id="weight"
         value=${this.weight}
         color=${this.filtered ? '#888' : this.color}
-        audioLevel=${this.filtered ? 0 : this.audioLevel}
+        audioLevel=${this.filtered ? 0 : this.levels[this.haloBand]}
+        ?morphing=${this.morphing}
         @input=${this.updateWeight}></weight-knob>
       <span
         id="text"
@@ -265,9 +458,26 @@ export class PromptController extends LitElement {
         @focus=${this.onFocus}
         @keydown=${this.onKeyDown}
         @blur=${this.updateText}></span>
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      <div
+        id="midi"
+        title="Click to learn, right-click to toggle omni"
+        @click=${() => this.learn.toggleLearn('weight')}
+        @contextmenu=${this.toggleOmni}>
+        ${this.learn.label('weight')}
       </div>
+      ${this.keyHint ? html`<div id="keys" title="Select · toggle keys">${this.keyHint}</div>` : ''}
+      <div id="handle" draggable="true" title="Drag to reorder" @dragstart=${this.handleDragStart}>⠿</div>
+      <button id="band" title="Click to change the band the halo follows" @click=${this.cycleHaloBand}>
+        ${this.haloBand}
+      </button>
+      <button id="remove" title="Remove this prompt" @click=${this.removePrompt}>✕</button>
+      ${this.note ? html`<div
+        id="note"
+        title="Click to change mode, right-click to forget the note"
+        @click=${this.cycleNoteMode}
+        @contextmenu=${this.clearNote}>
+        ${formatNote(this.note.note)} ${this.note.mode}
+      </div>` : ''}
     </div>`;
   }
 }
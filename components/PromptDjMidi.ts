@@ -3,13 +3,69 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, state } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
 
 
 import './PromptController';
+import { PROMPT_DRAG_TYPE, PromptController } from './PromptController';
 import './PlayPauseButton';
-import type { PlaybackState, Prompt } from '../types';
+import './RecordButton';
+import './GenerationConfigPanel';
+import './PresetPanel';
+import './SceneCrossfader';
+import './ScenePanel';
+import type { ScenePanel } from './ScenePanel';
+import './AutomationPanel';
+import type { AutomationPanel } from './AutomationPanel';
+import './EffectsPanel';
+import './OscilloscopeDisplay';
+import './KeyBindingsOverlay';
+import './HistoryButtons';
+import './FilteredPromptPanel';
+import type { HistoryBindingChange } from './HistoryButtons';
+import type {
+  BufferStats,
+  DeckControl,
+  EffectParam,
+  EffectSettings,
+  FilteredPrompt,
+  GenerationConfig,
+  GenerationParam,
+  KeyCommand,
+  LevelBand,
+  MidiBinding,
+  MidiProfile,
+  PlaybackState,
+  Prompt,
+  RecordingFormat,
+  Tap,
+  TapPosition,
+} from '../types';
+import type { AudioAnalyser } from '../utils/AudioAnalyser';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { PromptHistory } from '../utils/PromptHistory';
+import type { DeckState } from '../utils/PromptHistory';
+import { downloadBlob } from '../utils/download';
+import { defaultEffectBindings, defaultEffectSettings } from '../utils/effects';
+import { defaultParamBindings, effectiveBpm } from '../utils/generationConfig';
+import { findKeyCommand, formatKey, loadKeyBindings, nudgeWeight, parseSlotCommand, saveKeyBindings } from '../utils/keyBindings';
+import { findFreeCc, movePrompt, PromptIdCounter, releaseCc } from '../utils/promptSlots';
+import {
+  defaultDeckBindings,
+  deleteMidiProfile,
+  loadMidiProfile,
+  parseMidiProfile,
+  saveMidiProfile,
+  serializeMidiProfile,
+} from '../utils/midiProfiles';
+
+/** Whether a key press is typing into a field rather than playing the deck. */
+function isTextEntry(e: KeyboardEvent) {
+  const target = e.composedPath()[0];
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -76,11 +132,62 @@ export class PromptDjMidi extends LitElement {
     prompt-controller {
       width: 100%;
       min-height: 0;
+      &.drop-target {
+        outline: 2px dashed var(--accent-cyan);
+        outline-offset: 4px;
+        border-radius: clamp(18px, 3vmin, 26px);
+      }
+    }
+    #add-slot {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 12px;
+      padding: clamp(18px, 2.6vmin, 24px);
+      border-radius: clamp(18px, 3vmin, 26px);
+      border: 1px dashed rgba(111, 232, 255, 0.3);
+      background: rgba(4, 22, 33, 0.2);
+      input {
+        font: inherit;
+        width: 100%;
+        max-width: 200px;
+        padding: 6px 14px;
+        border-radius: 999px;
+        border: 1px solid rgba(97, 164, 198, 0.3);
+        background: rgba(9, 32, 48, 0.92);
+        color: var(--text-primary);
+        outline: none;
+      }
+      input[type='color'] {
+        padding: 2px 6px;
+        height: 32px;
+        cursor: pointer;
+      }
     }
     play-pause-button {
       position: relative;
       width: clamp(112px, 12vmin, 140px);
     }
+    record-button {
+      width: clamp(56px, 6vmin, 72px);
+    }
+    #transport {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+    #buffer-stats {
+      display: flex;
+      flex-direction: column;
+      font-size: 11px;
+      line-height: 1.4;
+      color: var(--text-secondary);
+      text-align: right;
+      .underruns {
+        color: var(--accent-amber);
+      }
+    }
     #controls {
       display: flex;
       align-items: center;
@@ -89,6 +196,20 @@ export class PromptDjMidi extends LitElement {
       gap: 12px;
       padding-inline: clamp(12px, 2vmin, 18px);
     }
+    #midi-profile {
+      display: flex;
+      gap: 6px;
+      button {
+        font-size: 11px;
+        padding: 4px 12px;
+      }
+      input {
+        display: none;
+      }
+    }
+    scene-crossfader {
+      margin: 12px clamp(12px, 2vmin, 18px) 0;
+    }
     #buttons {
       display: flex;
       gap: 12px;
@@ -156,7 +277,7 @@ export class PromptDjMidi extends LitElement {
         justify-content: center;
         gap: 16px;
       }
-      play-pause-button {
+      #transport {
         margin-top: 8px;
       }
     }
@@ -164,26 +285,81 @@ export class PromptDjMidi extends LitElement {
 
   private prompts: Map<string, Prompt>;
   private midiDispatcher: MidiDispatcher;
+  private history: PromptHistory;
 
   @property({ type: Boolean }) private showMidi = false;
+  @property({ type: Boolean }) private showConfig = false;
+  @property({ type: Boolean }) private showPresets = false;
+  @property({ type: Boolean }) private showScenes = false;
+  @property({ type: Boolean }) private showAutomation = false;
+  @property({ type: Boolean }) private showEffects = false;
+  @property({ type: Boolean }) private showScope = true;
+  @property({ type: Boolean }) private showFiltered = false;
+  /** Whether computer keys play the deck. */
+  @property({ type: Boolean }) private keyboardMode = false;
+  @state() private showKeys = false;
+  @state() private keyBindings = loadKeyBindings();
+  /** The prompt the nudge keys move. */
+  @state() private selectedPromptId: string | null = null;
+  @state() private morphing = false;
+  @state() private config: GenerationConfig = {};
+  @state() private paramBindings = defaultParamBindings();
+  @state() private deckBindings = defaultDeckBindings();
+  @state() private effects = defaultEffectSettings();
+  @state() private effectBindings = defaultEffectBindings();
+  @property({ type: Object }) public taps: Record<Tap, TapPosition> = { recorder: 'pre', analyser: 'post' };
+  @state() private dropTargetId: string | null = null;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
-  @state() public audioLevel = 0;
+  @property({ type: Boolean }) public recording = false;
+  @property({ type: Array }) public recordingFormats: RecordingFormat[] = ['wav'];
+  @state() private recordingFormat: RecordingFormat = 'wav';
+  @state() public audioLevels: Record<LevelBand, number> = { full: 0, bass: 0, mid: 0, high: 0 };
+  @property({ type: Object }) public analyser: AudioAnalyser | null = null;
+  @property({ type: Object }) public bufferStats: BufferStats | null = null;
   @state() private midiInputIds: string[] = [];
   @state() private activeMidiInputId: string | null = null;
 
+  /** The prompts the server refused, keyed by text. */
   @property({ type: Object })
-  private filteredPrompts = new Set<string>();
+  public filteredPrompts = new Map<string, FilteredPrompt>();
+
+  @query('#midi-profile input') private profileFileInput!: HTMLInputElement;
+  @query('scene-panel') private scenePanel!: ScenePanel;
+  @query('automation-panel') private automationPanel!: AutomationPanel;
+
+  /** The weight a toggle key turns each prompt back on to. */
+  private keyOnWeights = new Map<string, number>();
+
+  private readonly promptIds = new PromptIdCounter();
 
   constructor(
     initialPrompts: Map<string, Prompt>,
   ) {
     super();
     this.prompts = initialPrompts;
+    this.promptIds.reserve(initialPrompts);
     this.midiDispatcher = new MidiDispatcher();
+    this.history = new PromptHistory(this.deckState);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.handleKeyDown);
   }
 
   private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const { promptId, text, weight, cc } = e.detail;
+    this.updatePrompt(e.detail);
+  }
+
+  /** Applies a change to one prompt. Only changes made by hand are undoable. */
+  private updatePrompt(changed: Prompt, undoable = true) {
+    const { promptId, text, weight, cc, channel, note } = changed;
     const prompt = this.prompts.get(promptId);
 
     if (!prompt) {
@@ -191,21 +367,405 @@ export class PromptDjMidi extends LitElement {
       return;
     }
 
+    // Taking hold of a knob takes over from a running morph.
+    if (weight !== prompt.weight) this.scenePanel.cancelMorph();
+
+    const ccChanged = prompt.cc !== cc || prompt.channel !== channel;
+    const bindingChanged = ccChanged || prompt.note !== note;
+    // A sweep of one knob undoes as a single step.
+    const historyKey = text === prompt.text && !bindingChanged ? `weight:${promptId}` : null;
+
     prompt.text = text;
     prompt.weight = weight;
     prompt.cc = cc;
+    prompt.channel = channel;
+    prompt.note = note;
 
     const newPrompts = new Map(this.prompts);
     newPrompts.set(promptId, prompt);
 
     this.prompts = newPrompts;
+    if (ccChanged) this.releaseLearnedCc(prompt);
+    this.requestUpdate();
+
+    if (bindingChanged) this.storeMidiProfile();
+
+    this.commitPrompts(historyKey, undoable);
+  }
+
+  /** The prompts and CCs, as the history keeps them. */
+  private get deckState(): DeckState {
+    return {
+      prompts: this.prompts,
+      params: this.paramBindings,
+      controls: this.deckBindings,
+      effects: this.effectBindings,
+    };
+  }
+
+  /** Records the prompts in the history and sends them on. */
+  private commitPrompts(historyKey: string | null = null, undoable = true) {
+    if (undoable) {
+      this.history.record(this.deckState, historyKey);
+    } else {
+      this.history.follow(this.deckState);
+    }
+    this.dispatchEvent(
+      new CustomEvent('prompts-changed', { detail: this.prompts }),
+    );
+  }
+
+  private undo() {
+    this.restorePrompts(this.history.undo());
+  }
+
+  private redo() {
+    this.restorePrompts(this.history.redo());
+  }
+
+  /** Puts back prompts and CCs from the history without recording them again. */
+  private restorePrompts(state: DeckState | null) {
+    if (!state) return;
+    this.scenePanel.cancelMorph();
+    this.prompts = state.prompts;
+    this.paramBindings = state.params;
+    this.deckBindings = state.controls;
+    this.effectBindings = state.effects;
     this.requestUpdate();
+    // The step may have put back a binding as well as a weight.
+    this.storeMidiProfile();
 
     this.dispatchEvent(
       new CustomEvent('prompts-changed', { detail: this.prompts }),
     );
   }
 
+  /** A change made by hand on a knob or controller, which automation records. */
+  private handleControllerPromptChanged(e: CustomEvent<Prompt>) {
+    const prompt = this.prompts.get(e.detail.promptId);
+    if (prompt && (prompt.weight !== e.detail.weight || prompt.text !== e.detail.text)) {
+      this.automationPanel.capture(e.detail);
+    }
+    this.handlePromptChanged(e);
+  }
+
+  /** Replays a recorded change on top of the slot's current bindings. */
+  private handleAutomationEvent(e: CustomEvent<Prompt>) {
+    const { promptId, text, weight } = e.detail;
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+    // Replaying automation isn't an edit, so it doesn't go in the history.
+    this.updatePrompt({ ...prompt, text, weight }, false);
+  }
+
+  private handleConfigChanged(e: CustomEvent<GenerationConfig>) {
+    this.config = e.detail;
+    this.dispatchEvent(
+      new CustomEvent('config-changed', { detail: this.config }),
+    );
+  }
+
+  /** Every binding in use, for picking CCs that don't collide. */
+  private get takenBindings() {
+    return [
+      ...this.prompts.values(),
+      ...this.paramBindings.values(),
+      ...this.deckBindings.values(),
+      ...this.effectBindings.values(),
+    ];
+  }
+
+  /** A CC learned for one thing moves whatever else was on it to a free CC. */
+  private releaseLearnedCc(...learned: MidiBinding[]) {
+    const taken = this.takenBindings;
+    if (!learned.map((binding) => releaseCc(binding, taken)).includes(true)) return;
+    this.prompts = new Map(this.prompts);
+    this.paramBindings = new Map(this.paramBindings);
+    this.deckBindings = new Map(this.deckBindings);
+    this.effectBindings = new Map(this.effectBindings);
+  }
+
+  private addPrompt(e: SubmitEvent) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const data = new FormData(form);
+    const text = String(data.get('text') ?? '').trim();
+    if (!text) return;
+    const requestedCc = Number.parseInt(String(data.get('cc')), 10);
+    const promptId = this.promptIds.take();
+    const prompt: Prompt = {
+      promptId,
+      text,
+      weight: 0,
+      cc: findFreeCc(this.takenBindings, Number.isNaN(requestedCc) ? 0 : requestedCc),
+      channel: null,
+      color: String(data.get('color')),
+      note: null,
+    };
+    form.reset();
+
+    this.prompts = new Map(this.prompts).set(promptId, prompt);
+    this.requestUpdate();
+    this.storeMidiProfile();
+
+    this.commitPrompts();
+  }
+
+  private handlePromptRemoved(e: CustomEvent<string>) {
+    if (this.prompts.size === 1) {
+      this.dispatchEvent(new CustomEvent('error', { detail: 'The deck needs at least one prompt.' }));
+      return;
+    }
+    const newPrompts = new Map(this.prompts);
+    newPrompts.delete(e.detail);
+    this.prompts = newPrompts;
+    this.requestUpdate();
+    this.storeMidiProfile();
+
+    this.commitPrompts();
+  }
+
+  private findPromptController(e: DragEvent) {
+    return e.composedPath().find(
+      (target): target is PromptController => target instanceof PromptController,
+    ) ?? null;
+  }
+
+  private handleDragOver(e: DragEvent) {
+    if (!e.dataTransfer?.types.includes(PROMPT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const target = this.findPromptController(e);
+    this.dropTargetId = target?.promptId ?? null;
+  }
+
+  private handleDrop(e: DragEvent) {
+    const movedId = e.dataTransfer?.getData(PROMPT_DRAG_TYPE);
+    const targetId = this.findPromptController(e)?.promptId;
+    this.dropTargetId = null;
+    if (!movedId || !targetId || movedId === targetId) return;
+    e.preventDefault();
+
+    // Dropping onto a later slot lands after it, onto an earlier one before it.
+    const ids = [...this.prompts.keys()];
+    const movingForward = ids.indexOf(movedId) < ids.indexOf(targetId);
+    const beforeId = movingForward ? ids[ids.indexOf(targetId) + 1] ?? null : targetId;
+
+    this.prompts = movePrompt(this.prompts, movedId, beforeId);
+    this.requestUpdate();
+
+    this.commitPrompts();
+  }
+
+  /**
+   * Sets the weights of many prompts at once, e.g. from a fader or morph.
+   * Each source moving continuously undoes as a single step.
+   */
+  private handleCrossfade(e: CustomEvent<Map<string, number>>) {
+    // Taking hold of the fader takes over from a running morph.
+    this.scenePanel.cancelMorph();
+    this.applyWeights(e, 'crossfade');
+  }
+
+  private applyWeights(e: CustomEvent<Map<string, number>>, historyKey: string) {
+    const weights = e.detail;
+    const newPrompts = new Map(this.prompts);
+    for (const [promptId, weight] of weights) {
+      const prompt = newPrompts.get(promptId);
+      if (prompt) newPrompts.set(promptId, { ...prompt, weight });
+    }
+    this.prompts = newPrompts;
+    this.requestUpdate();
+
+    this.commitPrompts(historyKey);
+  }
+
+  private handleDeckBindingChanged(control: DeckControl, binding: MidiBinding) {
+    this.deckBindings = new Map(this.deckBindings).set(control, binding);
+    this.releaseLearnedCc(binding);
+    this.storeMidiProfile();
+    // A learned CC undoes like a prompt's, along with any binding it moved.
+    this.history.record(this.deckState);
+  }
+
+  private handlePresetLoaded(e: CustomEvent<Map<string, Prompt>>) {
+    this.prompts = e.detail;
+    this.promptIds.reserve(this.prompts);
+    // The controller in hand decides the CCs, not the preset.
+    this.applyMidiProfile();
+    this.requestUpdate();
+
+    this.commitPrompts();
+  }
+
+  private handleEffectsChanged(e: CustomEvent<EffectSettings>) {
+    this.effects = e.detail;
+    this.dispatchEvent(
+      new CustomEvent('effects-changed', { detail: this.effects }),
+    );
+  }
+
+  private handleEffectBindingsChanged(e: CustomEvent<Map<EffectParam, MidiBinding>>) {
+    const learned = [...e.detail].filter(([param, binding]) => this.effectBindings.get(param) !== binding);
+    this.effectBindings = e.detail;
+    this.releaseLearnedCc(...learned.map(([, binding]) => binding));
+    this.storeMidiProfile();
+    this.history.record(this.deckState);
+  }
+
+  private handleTapChanged(e: CustomEvent<{ tap: Tap; position: TapPosition }>) {
+    const { tap, position } = e.detail;
+    this.taps = { ...this.taps, [tap]: position };
+    this.dispatchEvent(
+      new CustomEvent('tap-changed', { detail: e.detail }),
+    );
+  }
+
+  private redispatchError(e: CustomEvent<string>) {
+    this.dispatchEvent(new CustomEvent('error', { detail: e.detail }));
+  }
+
+  /** Passes on a request to clear or retry a filtered prompt. */
+  private redispatchFilterAction(e: CustomEvent<string>) {
+    this.dispatchEvent(new CustomEvent<string>(e.type, { detail: e.detail }));
+  }
+
+  private handleParamBindingsChanged(e: CustomEvent<Map<GenerationParam, MidiBinding>>) {
+    const learned = [...e.detail].filter(([param, binding]) => this.paramBindings.get(param) !== binding);
+    this.paramBindings = e.detail;
+    this.releaseLearnedCc(...learned.map(([, binding]) => binding));
+    this.storeMidiProfile();
+    this.history.record(this.deckState);
+  }
+
+  private get activeDeviceName() {
+    if (!this.activeMidiInputId) return null;
+    return this.midiDispatcher.getDeviceName(this.activeMidiInputId);
+  }
+
+  private createMidiProfile(deviceName: string): MidiProfile {
+    return {
+      deviceName,
+      prompts: Object.fromEntries(
+        [...this.prompts.values()].map(({ promptId, cc, channel }) => [promptId, { cc, channel }]),
+      ),
+      params: Object.fromEntries(this.paramBindings),
+      controls: Object.fromEntries(this.deckBindings),
+      effects: Object.fromEntries(this.effectBindings),
+      notes: Object.fromEntries(
+        [...this.prompts.values()].filter((p) => p.note).map((p) => [p.promptId, p.note!]),
+      ),
+    };
+  }
+
+  /** Remembers the current mapping for the selected controller. */
+  private storeMidiProfile() {
+    const deviceName = this.activeDeviceName;
+    if (!deviceName) return;
+    saveMidiProfile(this.createMidiProfile(deviceName));
+  }
+
+  /**
+   * Applies the stored mapping for the selected controller, if any. Switching
+   * mappings isn't undoable, so callers other than a preset load let the
+   * history follow it.
+   */
+  private applyMidiProfile(profile = this.activeDeviceName ? loadMidiProfile(this.activeDeviceName) : null) {
+    if (!profile) return;
+    for (const prompt of this.prompts.values()) {
+      prompt.note = profile.notes[prompt.promptId] ?? null;
+      const binding = profile.prompts[prompt.promptId];
+      if (!binding) continue;
+      prompt.cc = binding.cc;
+      prompt.channel = binding.channel;
+    }
+    const paramBindings = new Map(this.paramBindings);
+    for (const [param, binding] of Object.entries(profile.params)) {
+      paramBindings.set(param as GenerationParam, binding);
+    }
+    this.paramBindings = paramBindings;
+    const deckBindings = new Map(this.deckBindings);
+    for (const [control, binding] of Object.entries(profile.controls)) {
+      deckBindings.set(control as DeckControl, binding);
+    }
+    this.deckBindings = deckBindings;
+    const effectBindings = new Map(this.effectBindings);
+    for (const [param, binding] of Object.entries(profile.effects)) {
+      effectBindings.set(param as EffectParam, binding);
+    }
+    this.effectBindings = effectBindings;
+    this.prompts = new Map(this.prompts);
+    this.requestUpdate();
+  }
+
+  private clearMidiMapping() {
+    const deviceName = this.activeDeviceName;
+    if (deviceName) deleteMidiProfile(deviceName);
+    this.paramBindings = defaultParamBindings();
+    this.deckBindings = defaultDeckBindings();
+    this.effectBindings = defaultEffectBindings();
+    const taken = [...this.paramBindings.values(), ...this.deckBindings.values(), ...this.effectBindings.values()];
+    [...this.prompts.values()].forEach((prompt, i) => {
+      prompt.cc = findFreeCc(taken, i);
+      prompt.channel = null;
+      prompt.note = null;
+      taken.push(prompt);
+    });
+    this.prompts = new Map(this.prompts);
+    this.requestUpdate();
+    this.history.follow(this.deckState);
+  }
+
+  private exportMidiProfile() {
+    const deviceName = this.activeDeviceName ?? 'Unknown device';
+    const blob = new Blob([serializeMidiProfile(this.createMidiProfile(deviceName))], { type: 'application/json' });
+    const filename = `${deviceName.replace(/[^\w-]+/g, '-').toLowerCase()}.midi-profile.json`;
+    downloadBlob(blob, filename);
+  }
+
+  private async importMidiProfile() {
+    const file = this.profileFileInput.files?.[0];
+    this.profileFileInput.value = '';
+    if (!file) return;
+    try {
+      const profile = parseMidiProfile(await file.text());
+      // A profile exported from one unit applies to any identical controller.
+      this.applyMidiProfile(profile);
+      this.storeMidiProfile();
+      this.history.follow(this.deckState);
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  private toggleShowFiltered() {
+    this.showFiltered = !this.showFiltered;
+  }
+
+  private toggleShowScope() {
+    this.showScope = !this.showScope;
+  }
+
+  private toggleShowEffects() {
+    this.showEffects = !this.showEffects;
+  }
+
+  private toggleShowAutomation() {
+    this.showAutomation = !this.showAutomation;
+  }
+
+  private toggleShowScenes() {
+    this.showScenes = !this.showScenes;
+  }
+
+  private toggleShowPresets() {
+    this.showPresets = !this.showPresets;
+  }
+
+  private toggleShowConfig() {
+    this.showConfig = !this.showConfig;
+  }
+
   private toggleShowMidi() {
     return this.setShowMidi(!this.showMidi);
   }
@@ -217,6 +777,8 @@ export class PromptDjMidi extends LitElement {
       const inputIds = await this.midiDispatcher.getMidiAccess();
       this.midiInputIds = inputIds;
       this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+      this.applyMidiProfile();
+      this.history.follow(this.deckState);
     } catch (e) {
       this.showMidi = false;
       this.dispatchEvent(new CustomEvent('error', {detail: e.message}));
@@ -228,14 +790,144 @@ export class PromptDjMidi extends LitElement {
     const newMidiId = selectElement.value;
     this.activeMidiInputId = newMidiId;
     this.midiDispatcher.activeMidiInputId = newMidiId;
+    this.applyMidiProfile();
+    this.history.follow(this.deckState);
   }
 
   private playPause() {
     this.dispatchEvent(new CustomEvent('play-pause'));
   }
 
-  public addFilteredPrompt(prompt: string) {
-    this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
+  private toggleKeyboardMode() {
+    this.keyboardMode = !this.keyboardMode;
+    if (!this.keyboardMode) this.showKeys = false;
+  }
+
+  private handleKeyBindingsChanged(e: CustomEvent<Map<KeyCommand, string>>) {
+    this.keyBindings = e.detail;
+    saveKeyBindings(this.keyBindings);
+  }
+
+  /** Plays the deck from the computer keyboard, leaving keys typed into fields alone. */
+  private handleKeyDown(e: KeyboardEvent) {
+    if (isTextEntry(e)) return;
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+      return;
+    }
+    if (!this.keyboardMode || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key === 'Escape' && this.showKeys) {
+      this.showKeys = false;
+      return;
+    }
+    const command = findKeyCommand(this.keyBindings, e.code);
+    if (!command) return;
+    e.preventDefault();
+    // Holding a nudge key keeps nudging, but holding anything else acts once.
+    if (e.repeat && command !== 'nudge-up' && command !== 'nudge-down') return;
+    this.runKeyCommand(command, e.shiftKey);
+  }
+
+  private runKeyCommand(command: KeyCommand, fine: boolean) {
+    switch (command) {
+      case 'play-pause':
+        this.playPause();
+        return;
+      case 'show-keys':
+        this.showKeys = !this.showKeys;
+        return;
+      case 'select-previous':
+      case 'select-next':
+        this.selectAdjacentPrompt(command === 'select-next' ? 1 : -1);
+        return;
+      case 'nudge-up':
+      case 'nudge-down':
+        this.nudgeSelectedPrompt(command === 'nudge-up' ? 1 : -1, fine);
+        return;
+    }
+    const slotCommand = parseSlotCommand(command);
+    const prompt = slotCommand && [...this.prompts.values()][slotCommand.slot];
+    if (!prompt) return;
+    if (slotCommand.action === 'select') {
+      this.selectedPromptId = prompt.promptId;
+    } else {
+      this.togglePrompt(prompt);
+    }
+  }
+
+  private selectAdjacentPrompt(direction: 1 | -1) {
+    const ids = [...this.prompts.keys()];
+    const index = this.selectedPromptId === null ? -1 : ids.indexOf(this.selectedPromptId);
+    const next = index === -1
+      ? (direction === 1 ? 0 : ids.length - 1)
+      : (index + direction + ids.length) % ids.length;
+    this.selectedPromptId = ids[next];
+  }
+
+  private nudgeSelectedPrompt(direction: 1 | -1, fine: boolean) {
+    const prompt = this.selectedPromptId === null ? undefined : this.prompts.get(this.selectedPromptId);
+    if (!prompt) return;
+    this.setPromptWeight(prompt, nudgeWeight(prompt.weight, direction, fine));
+  }
+
+  /** Turns a prompt off, or back on to the weight it had when it was turned off. */
+  private togglePrompt(prompt: Prompt) {
+    if (prompt.weight > 0) {
+      this.keyOnWeights.set(prompt.promptId, prompt.weight);
+      this.setPromptWeight(prompt, 0);
+    } else {
+      this.setPromptWeight(prompt, this.keyOnWeights.get(prompt.promptId) ?? 1);
+    }
+  }
+
+  /** Sets a weight as if its knob had been turned, so automation records it. */
+  private setPromptWeight(prompt: Prompt, weight: number) {
+    if (weight === prompt.weight) return;
+    this.handleControllerPromptChanged(
+      new CustomEvent<Prompt>('prompt-changed', { detail: { ...prompt, weight } }),
+    );
+  }
+
+  private toggleRecording() {
+    this.dispatchEvent(
+      new CustomEvent<RecordingFormat>('record-toggle', { detail: this.recordingFormat }),
+    );
+  }
+
+  private handleRecordingFormatChange(event: Event) {
+    const selectElement = event.target as HTMLSelectElement;
+    this.recordingFormat = selectElement.value as RecordingFormat;
+  }
+
+  /** Flashes the pads of prompts the server just filtered. */
+  public flashFilteredPrompt(prompt: string) {
+    for (const { text, note } of this.prompts.values()) {
+      if (note && text === prompt) this.midiDispatcher.flashNote(note);
+    }
+  }
+
+  override updated() {
+    this.sendMidiFeedback();
+  }
+
+  /**
+   * Mirrors every prompt's weight to its CC and lights the pads of active
+   * prompts. The dispatcher drops values the device already has, so this can
+   * run on every render.
+   */
+  private sendMidiFeedback() {
+    for (const prompt of this.prompts.values()) {
+      this.midiDispatcher.sendControlChange(prompt, (prompt.weight / 2) * 127);
+      if (prompt.note) {
+        const active = prompt.weight > 0 && !this.filteredPrompts.has(prompt.text);
+        this.midiDispatcher.sendNote(prompt.note, active ? 127 : 0);
+      }
+    }
   }
 
   override render() {
@@ -264,26 +956,218 @@ export class PromptDjMidi extends LitElement {
         )
         : html`<option value="">No devices found</option>`}
             </select>
+            <div id="midi-profile" style=${this.showMidi ? '' : 'display: none'}>
+              <button @click=${this.clearMidiMapping} title="Forget the CCs learned for this device">CLEAR</button>
+              <button @click=${this.exportMidiProfile}>EXPORT</button>
+              <button @click=${() => this.profileFileInput.click()}>IMPORT</button>
+              <input type="file" accept="application/json,.json" @change=${this.importMidiProfile} />
+            </div>
+            <button
+              @click=${this.toggleShowScope}
+              class=${this.showScope ? 'active' : ''}
+              >SCOPE</button
+            >
+            <button
+              @click=${this.toggleShowConfig}
+              class=${this.showConfig ? 'active' : ''}
+              >CONFIG</button
+            >
+            <button
+              @click=${this.toggleShowEffects}
+              class=${this.showEffects ? 'active' : ''}
+              >FX</button
+            >
+            <button
+              @click=${this.toggleShowPresets}
+              class=${this.showPresets ? 'active' : ''}
+              >PRESETS</button
+            >
+            <button
+              @click=${this.toggleShowScenes}
+              class=${this.showScenes ? 'active' : ''}
+              >SCENES</button
+            >
+            <button
+              @click=${this.toggleShowAutomation}
+              class=${this.showAutomation ? 'active' : ''}
+              >AUTOMATION</button
+            >
+            <button
+              @click=${this.toggleShowFiltered}
+              class=${this.showFiltered ? 'active' : ''}
+              title="Prompts the server filtered, and why"
+              >FILTERED${this.filteredPrompts.size > 0 ? ` (${this.filteredPrompts.size})` : ''}</button
+            >
+            <button
+              @click=${this.toggleKeyboardMode}
+              class=${this.keyboardMode ? 'active' : ''}
+              title="Play the deck from the computer keyboard"
+              >KEYS</button
+            >
+            <button
+              @click=${() => { this.showKeys = true; }}
+              style=${this.keyboardMode ? '' : 'display: none'}
+              title="Show and change the key bindings"
+              >?</button
+            >
+            <history-buttons
+              ?canUndo=${this.history.canUndo}
+              ?canRedo=${this.history.canRedo}
+              .bindings=${{ undo: this.deckBindings.get('undo')!, redo: this.deckBindings.get('redo')! }}
+              .midiDispatcher=${this.midiDispatcher}
+              .showCC=${this.showMidi}
+              @undo=${this.undo}
+              @redo=${this.redo}
+              @binding-changed=${(e: CustomEvent<HistoryBindingChange>) => this.handleDeckBindingChanged(e.detail.control, e.detail.binding)}>
+            </history-buttons>
+          </div>
+          <div id="transport">
+            ${this.renderBufferStats()}
+            <select
+              @change=${this.handleRecordingFormatChange}
+              .value=${this.recordingFormat}
+              ?disabled=${this.recording}>
+              ${this.recordingFormats.map(
+        (format) => html`<option value=${format}>${format.toUpperCase()}</option>`,
+      )}
+            </select>
+            <record-button .recording=${this.recording} @click=${this.toggleRecording}></record-button>
+            <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
           </div>
-          <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
         </div>
-        <div id="grid">${this.renderPrompts()}</div>
-      </div>`;
+        <oscilloscope-display
+          ?hidden=${!this.showScope}
+          .analyser=${this.analyser}
+          ?active=${this.playbackState === 'playing' && this.showScope}>
+        </oscilloscope-display>
+        <scene-crossfader
+          .prompts=${this.prompts}
+          .binding=${this.deckBindings.get('crossfader')!}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          @crossfade=${this.handleCrossfade}
+          @binding-changed=${(e: CustomEvent<MidiBinding>) => this.handleDeckBindingChanged('crossfader', e.detail)}>
+        </scene-crossfader>
+        <generation-config-panel
+          ?hidden=${!this.showConfig}
+          .config=${this.config}
+          .bindings=${this.paramBindings}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          @config-changed=${this.handleConfigChanged}
+          @bindings-changed=${this.handleParamBindingsChanged}>
+        </generation-config-panel>
+        <effects-panel
+          ?hidden=${!this.showEffects}
+          .settings=${this.effects}
+          .taps=${this.taps}
+          .bindings=${this.effectBindings}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          @effects-changed=${this.handleEffectsChanged}
+          @bindings-changed=${this.handleEffectBindingsChanged}
+          @tap-changed=${this.handleTapChanged}>
+        </effects-panel>
+        <scene-panel
+          ?hidden=${!this.showScenes}
+          .prompts=${this.prompts}
+          bpm=${effectiveBpm(this.config)}
+          @morph-progress=${(e: CustomEvent<Map<string, number>>) => { this.morphing = true; this.applyWeights(e, 'morph'); }}
+          @morph-ended=${() => { this.morphing = false; }}>
+        </scene-panel>
+        <automation-panel
+          ?hidden=${!this.showAutomation}
+          @automation-event=${this.handleAutomationEvent}
+          @error=${this.redispatchError}>
+        </automation-panel>
+        <filtered-prompt-panel
+          ?hidden=${!this.showFiltered}
+          .filteredPrompts=${this.filteredPrompts}
+          @clear-filter=${this.redispatchFilterAction}
+          @retry-filter=${this.redispatchFilterAction}>
+        </filtered-prompt-panel>
+        <preset-panel
+          ?hidden=${!this.showPresets}
+          .prompts=${this.prompts}
+          .effects=${this.effects}
+          @preset-loaded=${this.handlePresetLoaded}
+          @effects-loaded=${this.handleEffectsChanged}
+          @error=${this.redispatchError}>
+        </preset-panel>
+        <div
+          id="grid"
+          @dragover=${this.handleDragOver}
+          @dragleave=${() => { this.dropTargetId = null; }}
+          @drop=${this.handleDrop}>
+          ${this.renderPrompts()}
+          ${this.renderAddSlot()}
+        </div>
+      </div>
+      <key-bindings-overlay
+        ?hidden=${!this.showKeys}
+        .bindings=${this.keyBindings}
+        .prompts=${this.prompts}
+        @bindings-changed=${this.handleKeyBindingsChanged}
+        @close=${() => { this.showKeys = false; }}>
+      </key-bindings-overlay>`;
+  }
+
+  private renderBufferStats() {
+    const stats = this.bufferStats;
+    if (!stats || this.playbackState === 'stopped' || this.playbackState === 'error') return '';
+    return html`<div id="buffer-stats" title="Audio buffered ahead, and how irregularly it arrives">
+      <span>Buffer ${Math.max(0, stats.depth).toFixed(1)}s / ${stats.target.toFixed(1)}s</span>
+      <span>
+        Jitter ${Math.round(stats.jitter * 1000)}ms
+        ${stats.underruns > 0 ? html`· <span class="underruns">${stats.underruns} underruns</span>` : ''}
+      </span>
+    </div>`;
+  }
+
+  private renderAddSlot() {
+    return html`<form id="add-slot" @submit=${this.addPrompt}>
+      <input name="text" type="text" placeholder="New prompt" required />
+      <input name="color" type="color" value="#6fe8ff" title="Color" />
+      <input
+        name="cc"
+        type="number"
+        min="0"
+        max="127"
+        placeholder=${`CC ${findFreeCc(this.takenBindings)}`}
+        title="CC, the nearest free one is used if it's taken" />
+      <button type="submit">ADD</button>
+    </form>`;
+  }
+
+  /** The select and toggle keys of a slot, for its card to show. */
+  private keyHint(slot: number) {
+    if (!this.keyboardMode) return '';
+    return [this.keyBindings.get(`select-${slot}`), this.keyBindings.get(`toggle-${slot}`)]
+      .filter((code) => code !== undefined)
+      .map(formatKey)
+      .join(' · ');
   }
 
   private renderPrompts() {
-    return [...this.prompts.values()].map((prompt) => {
+    return repeat([...this.prompts.values()], (prompt) => prompt.promptId, (prompt, slot) => {
       return html`<prompt-controller
+        class=${this.dropTargetId === prompt.promptId ? 'drop-target' : ''}
         promptId=${prompt.promptId}
+        ?selected=${this.keyboardMode && this.selectedPromptId === prompt.promptId}
+        keyHint=${this.keyHint(slot)}
         ?filtered=${this.filteredPrompts.has(prompt.text)}
         cc=${prompt.cc}
+        .channel=${prompt.channel}
+        .note=${prompt.note}
+        ?morphing=${this.morphing}
         text=${prompt.text}
         weight=${prompt.weight}
         color=${prompt.color}
         .midiDispatcher=${this.midiDispatcher}
         .showCC=${this.showMidi}
-        audioLevel=${this.audioLevel}
-        @prompt-changed=${this.handlePromptChanged}>
+        .levels=${this.audioLevels}
+        @prompt-changed=${this.handleControllerPromptChanged}
+        @prompt-removed=${this.handlePromptRemoved}>
       </prompt-controller>`;
     });
   }
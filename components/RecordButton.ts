@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { svg, css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+@customElement('record-button')
+export class RecordButton extends LitElement {
+
+  @property({ type: Boolean, reflect: true }) recording = false;
+  @state() private elapsed = 0;
+
+  private startTime = 0;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  static override styles = css`
+    :host {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+      filter: drop-shadow(0 18px 24px rgba(0, 0, 0, 0.5));
+    }
+    :host(:hover) svg {
+      transform: scale(1.1);
+    }
+    svg {
+      width: 100%;
+      transition: transform 0.4s cubic-bezier(0.25, 1.56, 0.32, 0.99);
+    }
+    .time {
+      font-size: 12px;
+      letter-spacing: 0.08em;
+      color: var(--text-secondary);
+      font-variant-numeric: tabular-nums;
+    }
+    :host([recording]) .time {
+      color: #ff5c5c;
+    }
+    :host([recording]) .indicator {
+      animation: pulse 1.2s ease-in-out infinite;
+    }
+    @keyframes pulse {
+      50% { opacity: 0.45; }
+    }
+  `;
+
+  override updated(changedProperties: Map<string, unknown>) {
+    if (!changedProperties.has('recording')) return;
+    if (this.recording) {
+      this.startTime = Date.now();
+      this.elapsed = 0;
+      this.intervalId = setInterval(() => {
+        this.elapsed = Math.floor((Date.now() - this.startTime) / 1000);
+      }, 1000);
+    } else if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.intervalId !== null) clearInterval(this.intervalId);
+  }
+
+  private renderIcon() {
+    if (this.recording) {
+      return svg`<rect class="indicator" x="-12" y="-12" width="24" height="24" rx="4" fill="#ff4d4d" />`;
+    }
+    return svg`<circle class="indicator" r="14" fill="#ff4d4d" />`;
+  }
+
+  private formatElapsed() {
+    const minutes = Math.floor(this.elapsed / 60);
+    const seconds = this.elapsed % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+  }
+
+  override render() {
+    return html`<svg viewBox="0 0 80 80" xmlns="http://www.w3.org/2000/svg">
+        <circle
+          cx="40"
+          cy="40"
+          r="38"
+          fill="rgba(12, 15, 22, 0.9)"
+          stroke="rgba(94, 103, 140, 0.35)"
+          stroke-width="1.5" />
+        <circle
+          cx="40"
+          cy="40"
+          r="28"
+          fill="rgba(16, 20, 30, 0.95)"
+          stroke="rgba(255, 92, 92, 0.35)"
+          stroke-width="1.2" />
+        <g transform="translate(40 40)">${this.renderIcon()}</g>
+      </svg>
+      <span class="time">${this.recording ? this.formatElapsed() : 'REC'}</span>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'record-button': RecordButton
+  }
+}
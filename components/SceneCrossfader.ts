@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { matchesBinding } from '../utils/MidiDispatcher';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiLearnController } from '../utils/MidiLearnController';
+import { CROSSFADE_CURVES, crossfadeWeights } from '../utils/crossfade';
+import { defaultDeckBindings } from '../utils/midiProfiles';
+import type { ControlChange, CrossfadeCurve, MidiBinding, Prompt } from '../types';
+
+type Scene = 'a' | 'b';
+
+/** Stores two weight snapshots and blends between them with a fader. */
+@customElement('scene-crossfader')
+export class SceneCrossfader extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 10px;
+      padding: 8px 12px;
+      border-radius: 999px;
+      background: linear-gradient(145deg, rgba(17, 54, 78, 0.85), rgba(10, 36, 53, 0.9));
+      border: 1px solid rgba(104, 173, 211, 0.35);
+    }
+    button,
+    select {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+      &.stored {
+        color: var(--accent-cyan);
+        border-color: rgba(111, 232, 255, 0.6);
+      }
+    }
+    select {
+      background: rgba(9, 32, 48, 0.92);
+      color: var(--text-primary);
+    }
+    input {
+      flex: 1;
+      min-width: 120px;
+      accent-color: var(--accent-magenta);
+    }
+    .cc {
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      border-radius: 999px;
+      padding: 2px 10px;
+      color: rgba(223, 226, 255, 0.72);
+      background: linear-gradient(120deg, rgba(94, 66, 146, 0.48), rgba(56, 25, 82, 0.68));
+      border: 1px solid rgba(147, 117, 231, 0.4);
+      cursor: pointer;
+      user-select: none;
+      &.learn-mode {
+        color: #ffe0c2;
+        border-color: rgba(255, 182, 117, 0.6);
+        background: linear-gradient(120deg, rgba(255, 146, 86, 0.45), rgba(255, 102, 129, 0.55));
+      }
+    }
+  `;
+
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Object }) binding = defaultDeckBindings().get('crossfader')!;
+  @property({ type: Boolean }) showCC = false;
+
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  @state() private scenes: Record<Scene, Map<string, number> | null> = { a: null, b: null };
+  @state() private position = 0;
+  @state() private curve: CrossfadeCurve = 'constant-power';
+
+  private readonly learn = new MidiLearnController<'crossfader'>(this, {
+    dispatcher: () => this.midiDispatcher,
+    binding: () => this.binding,
+    setBinding: (_, binding) => this.setBinding(binding),
+    onControlChange: (change) => this.handleControlChange(change),
+  });
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learn.learning = null;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleControlChange(change: ControlChange) {
+    if (matchesBinding(this.binding, change)) this.setPosition(change.value / 127);
+  }
+
+  private setBinding(binding: MidiBinding) {
+    this.binding = binding;
+    this.dispatchEvent(new CustomEvent<MidiBinding>('binding-changed', { detail: binding }));
+  }
+
+  private storeScene(scene: Scene) {
+    const weights = new Map([...this.prompts.values()].map((p) => [p.promptId, p.weight]));
+    this.scenes = { ...this.scenes, [scene]: weights };
+    // Storing a scene leaves the fader resting on it, so nothing jumps.
+    this.position = scene === 'a' ? 0 : 1;
+  }
+
+  private setPosition(position: number) {
+    this.position = position;
+    const { a, b } = this.scenes;
+    if (!a || !b) return;
+    this.dispatchEvent(
+      new CustomEvent<Map<string, number>>('crossfade', {
+        detail: crossfadeWeights(a, b, position, this.curve),
+      }),
+    );
+  }
+
+  private handleCurveChange(e: Event) {
+    this.curve = (e.target as HTMLSelectElement).value as CrossfadeCurve;
+    this.setPosition(this.position);
+  }
+
+  override render() {
+    const ready = this.scenes.a !== null && this.scenes.b !== null;
+    return html`<button
+        class=${classMap({ stored: this.scenes.a !== null })}
+        title="Store the current weights as scene A"
+        @click=${() => this.storeScene('a')}
+        >A</button
+      >
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.001"
+        title=${ready ? 'Crossfade between scenes A and B' : 'Store scenes A and B to crossfade'}
+        ?disabled=${!ready}
+        .value=${String(this.position)}
+        @input=${(e: Event) => this.setPosition((e.target as HTMLInputElement).valueAsNumber)} />
+      <button
+        class=${classMap({ stored: this.scenes.b !== null })}
+        title="Store the current weights as scene B"
+        @click=${() => this.storeScene('b')}
+        >B</button
+      >
+      <select @change=${this.handleCurveChange}>
+        ${CROSSFADE_CURVES.map((curve) => html`<option value=${curve} ?selected=${curve === this.curve}>
+          ${curve.toUpperCase()}
+        </option>`)}
+      </select>
+      ${this.showCC ? html`<span
+        class=${classMap({ cc: true, 'learn-mode': this.learn.learning !== null })}
+        title="Click to learn, right-click to toggle omni"
+        @click=${() => this.learn.toggleLearn('crossfader')}
+        @contextmenu=${(e: Event) => { e.preventDefault(); this.learn.toggleOmni('crossfader'); }}
+        >${this.learn.label('crossfader')}</span
+      >` : ''}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-crossfader': SceneCrossfader;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Prompt } from '../types';
+import { barsToMs, SceneMorpher } from '../utils/SceneMorpher';
+
+interface Scene {
+  name: string;
+  weights: Map<string, number>;
+}
+
+type MorphUnit = 'bars' | 'seconds';
+
+/** Stores scenes and morphs the prompt weights to one over time. */
+@customElement('scene-panel')
+export class ScenePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      padding: clamp(12px, 2vmin, 18px);
+      margin-top: 12px;
+      border-radius: 22px;
+      background: var(--panel-surface);
+      border: 1px solid var(--panel-border);
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    .row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+    }
+    .bpm,
+    .empty {
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+    input,
+    select {
+      font: inherit;
+      padding: 4px 12px;
+      border-radius: 999px;
+      border: 1px solid rgba(97, 164, 198, 0.3);
+      background: rgba(9, 32, 48, 0.92);
+      color: var(--text-primary);
+      outline: none;
+    }
+    input {
+      width: 72px;
+    }
+    button {
+      font: inherit;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 0.06em;
+      cursor: pointer;
+      color: var(--accent-amber);
+      background: linear-gradient(140deg, rgba(60, 176, 220, 0.12), rgba(247, 125, 221, 0.1));
+      border: 1px solid rgba(141, 213, 241, 0.35);
+      border-radius: 999px;
+      padding: 4px 14px;
+      &.target {
+        background: linear-gradient(150deg, var(--accent-amber), var(--accent-cyan));
+        color: #021017;
+      }
+    }
+    .scene {
+      display: inline-flex;
+      gap: 2px;
+    }
+  `;
+
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Number }) bpm = 120;
+
+  @state() private scenes: Scene[] = [];
+  @state() private length = 4;
+  @state() private unit: MorphUnit = 'bars';
+  @state() private target: Scene | null = null;
+
+  private readonly morpher = new SceneMorpher();
+
+  constructor() {
+    super();
+    this.morpher.addEventListener('morph-progress', ((e: CustomEvent<Map<string, number>>) => {
+      this.dispatchEvent(new CustomEvent<Map<string, number>>('morph-progress', { detail: e.detail }));
+    }) as EventListener);
+    this.morpher.addEventListener('morph-ended', () => {
+      this.target = null;
+      this.dispatchEvent(new CustomEvent('morph-ended'));
+    });
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.morpher.cancel();
+  }
+
+  get morphing() {
+    return this.morpher.morphing;
+  }
+
+  private get currentWeights() {
+    return new Map([...this.prompts.values()].map((p) => [p.promptId, p.weight]));
+  }
+
+  private storeScene() {
+    const name = `Scene ${this.scenes.length + 1}`;
+    this.scenes = [...this.scenes, { name, weights: this.currentWeights }];
+  }
+
+  private overwriteScene(scene: Scene) {
+    this.scenes = this.scenes.map((s) => s === scene ? { ...s, weights: this.currentWeights } : s);
+  }
+
+  /** Morphs to a scene, retargeting from the current weights if already morphing. */
+  private morphTo(scene: Scene) {
+    const durationMs = this.unit === 'bars'
+      ? barsToMs(this.length, this.bpm)
+      : this.length * 1000;
+    this.target = scene;
+    this.morpher.morph(this.currentWeights, scene.weights, durationMs);
+  }
+
+  public cancelMorph() {
+    this.morpher.cancel();
+  }
+
+  override render() {
+    return html`<div class="row">
+        <button @click=${this.storeScene}>STORE SCENE</button>
+        <span class="bpm">Morph over</span>
+        <input
+          type="number"
+          min="0"
+          step=${this.unit === 'bars' ? 1 : 0.5}
+          .value=${String(this.length)}
+          @change=${(e: Event) => { this.length = Math.max(0, (e.target as HTMLInputElement).valueAsNumber || 0); }} />
+        <select .value=${this.unit} @change=${(e: Event) => { this.unit = (e.target as HTMLSelectElement).value as MorphUnit; }}>
+          <option value="bars">BARS</option>
+          <option value="seconds">SECONDS</option>
+        </select>
+        ${this.unit === 'bars' ? html`<span class="bpm">at ${this.bpm} BPM</span>` : ''}
+        ${this.target ? html`<button @click=${this.cancelMorph}>CANCEL</button>` : ''}
+      </div>
+      <div class="row">
+        ${this.scenes.length > 0
+          ? this.scenes.map((scene) => html`<span class="scene">
+              <button
+                class=${classMap({ target: this.target === scene })}
+                title="Morph to this scene"
+                @click=${() => this.morphTo(scene)}>${scene.name}</button>
+              <button title="Overwrite with the current weights" @click=${() => this.overwriteScene(scene)}>↻</button>
+            </span>`)
+          : html`<span class="empty">Store a scene, change the mix, then morph back to it.</span>`}
+      </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-panel': ScenePanel;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+/** How far the pointer travels to sweep the whole range. */
+const DRAG_RANGE_PX = 160;
+
+/** A front-panel knob that snaps to steps. Double-click returns it to `defaultValue`. */
+@customElement('scope-knob')
+export class ScopeKnob extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 4px;
+      font-size: 10px;
+      letter-spacing: 0.06em;
+      text-transform: uppercase;
+      color: var(--text-secondary);
+      user-select: none;
+    }
+    #dial {
+      width: 44px;
+      aspect-ratio: 1;
+      border-radius: 50%;
+      cursor: grab;
+      touch-action: none;
+      position: relative;
+      background: radial-gradient(circle at 50% 30%, rgba(255, 255, 255, 0.3), rgba(40, 58, 70, 0.9) 60%, rgba(8, 16, 22, 1));
+      box-shadow: inset 0 -4px 8px rgba(0, 0, 0, 0.6), 0 6px 12px rgba(0, 10, 16, 0.45);
+    }
+    #pointer {
+      position: absolute;
+      left: 50%;
+      top: 4px;
+      width: 3px;
+      height: 12px;
+      margin-left: -1.5px;
+      border-radius: 2px;
+      background: var(--accent-amber);
+      transform-origin: 50% 18px;
+    }
+    .value {
+      color: var(--accent-amber);
+    }
+  `;
+
+  @property({ type: String }) label = '';
+  /** What to show for the value, e.g. with units. */
+  @property({ type: String }) display = '';
+  @property({ type: Number }) value = 0;
+  @property({ type: Number }) min = 0;
+  @property({ type: Number }) max = 1;
+  @property({ type: Number }) step = 0.01;
+  @property({ type: Number }) defaultValue = 0;
+
+  private dragStartPos = 0;
+  private dragStartValue = 0;
+
+  constructor() {
+    super();
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    e.preventDefault();
+    this.dragStartPos = e.clientY;
+    this.dragStartValue = this.value;
+    document.body.classList.add('dragging');
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    const delta = ((this.dragStartPos - e.clientY) / DRAG_RANGE_PX) * (this.max - this.min);
+    this.setValue(this.dragStartValue + delta);
+  }
+
+  private handlePointerUp() {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    document.body.classList.remove('dragging');
+  }
+
+  private handleWheel(e: WheelEvent) {
+    e.preventDefault();
+    this.setValue(this.value - Math.sign(e.deltaY) * this.step);
+  }
+
+  private setValue(value: number) {
+    const clamped = Math.max(this.min, Math.min(this.max, value));
+    const snapped = Number((this.min + Math.round((clamped - this.min) / this.step) * this.step).toFixed(4));
+    if (snapped === this.value) return;
+    this.value = snapped;
+    this.dispatchEvent(new CustomEvent<number>('input', { detail: snapped }));
+  }
+
+  override render() {
+    const fraction = (this.value - this.min) / (this.max - this.min || 1);
+    const pointerStyle = styleMap({ transform: `rotate(${-135 + fraction * 270}deg)` });
+    return html`<span>${this.label}</span>
+      <div
+        id="dial"
+        @pointerdown=${this.handlePointerDown}
+        @wheel=${this.handleWheel}
+        @dblclick=${() => this.setValue(this.defaultValue)}>
+        <div id="pointer" style=${pointerStyle}></div>
+      </div>
+      <span class="value">${this.display}</span>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scope-knob': ScopeKnob;
+  }
+}
@@ -6,6 +6,8 @@ import { css, html, LitElement } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
+import { FINE_NUDGE_STEP, NUDGE_STEP } from '../utils/keyBindings';
+
 /** Maps prompt weight to halo size. */
 const MIN_HALO_SCALE = 1;
 const MAX_HALO_SCALE = 2;
@@ -31,6 +33,18 @@ export class WeightKnob extends LitElement {
         inset 0 -10px 22px rgba(0, 0, 0, 0.55),
         0 12px 26px rgba(0, 10, 16, 0.45);
     }
+    :host([morphing])::after {
+      content: '';
+      position: absolute;
+      inset: -6px;
+      border-radius: 50%;
+      border: 2px dashed var(--accent-magenta, #f77ddd);
+      animation: morph-spin 4s linear infinite;
+      pointer-events: none;
+    }
+    @keyframes morph-spin {
+      to { transform: rotate(360deg); }
+    }
     svg {
       position: absolute;
       top: 0;
@@ -57,6 +71,8 @@ export class WeightKnob extends LitElement {
   @property({ type: Number }) value = 0;
   @property({ type: String }) color = '#000';
   @property({ type: Number }) audioLevel = 0;
+  /** Shows that the value is being driven by a scene morph. */
+  @property({ type: Boolean, reflect: true }) morphing = false;
 
   private dragStartPos = 0;
   private dragStartValue = 0;
@@ -90,9 +106,15 @@ export class WeightKnob extends LitElement {
     document.body.classList.remove('dragging');
   }
 
+  /** Turns the knob a nudge per wheel notch, or a fine nudge with shift held. */
   private handleWheel(e: WheelEvent) {
-    const delta = e.deltaY;
-    this.value = this.value + delta * -0.0025;
+    // Keep the page from scrolling while the knob turns.
+    e.preventDefault();
+    // Some systems turn vertical scrolling sideways while shift is held.
+    const delta = e.deltaY || e.deltaX;
+    const notches = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? delta / 3 : delta / 100;
+    const step = e.shiftKey ? FINE_NUDGE_STEP : NUDGE_STEP;
+    this.value = this.value - notches * step;
     this.value = Math.max(0, Math.min(2, this.value));
     this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
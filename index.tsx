@@ -4,16 +4,38 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
+import type { AudioLevels, BufferStats, EffectSettings, FilteredPrompt, GenerationConfig, PlaybackStateChange, Prompt, RecordingFormat, Tap, TapPosition } from './types';
 import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { LocalSynthBackend } from './utils/LocalSynthBackend';
+import { LyriaBackend } from './utils/LyriaBackend';
+import type { MusicBackend } from './utils/MusicBackend';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { AudioRecorder, recordingFilename } from './utils/AudioRecorder';
+import { downloadBlob } from './utils/download';
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY, apiVersion: 'v1alpha' });
 const model = 'lyria-realtime-exp';
 
+/**
+ * Lyria when there's an API key or a `LYRIA_BASE_URL` pointing at the mock
+ * server, otherwise the offline synth.
+ */
+function createBackend(): MusicBackend {
+  const baseUrl = process.env.LYRIA_BASE_URL;
+  if (process.env.MUSIC_BACKEND === 'local' || (!process.env.GEMINI_API_KEY && !baseUrl)) {
+    return new LocalSynthBackend();
+  }
+  const ai = new GoogleGenAI({
+    // The mock server accepts any key.
+    apiKey: process.env.GEMINI_API_KEY || 'mock',
+    apiVersion: 'v1alpha',
+    httpOptions: baseUrl ? { baseUrl } : undefined,
+  });
+  return new LyriaBackend(ai, model);
+}
+
 function main() {
   const initialPrompts = buildInitialPrompts();
 
@@ -23,11 +45,21 @@ function main() {
   const toastMessage = new ToastMessage();
   document.body.appendChild(toastMessage);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  const liveMusicHelper = new LiveMusicHelper(createBackend(), { maxReconnectAttempts: 5 });
   liveMusicHelper.setWeightedPrompts(initialPrompts);
 
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
-  liveMusicHelper.extraDestination = audioAnalyser.node;
+  const audioRecorder = new AudioRecorder(liveMusicHelper.audioContext);
+  pdjMidi.analyser = audioAnalyser;
+  pdjMidi.recordingFormats = AudioRecorder.supportedFormats;
+
+  const tapNodes: Record<Tap, AudioNode> = { recorder: audioRecorder.node, analyser: audioAnalyser.node };
+  const setTap = (tap: Tap, position: TapPosition) => {
+    liveMusicHelper.effects.setTap(tapNodes[tap], position);
+    // WAV recordings only hear the effects when captured from the node.
+    if (tap === 'recorder') audioRecorder.captureFromNode = position === 'post';
+  };
+  for (const [tap, position] of Object.entries(pdjMidi.taps)) setTap(tap as Tap, position);
 
   pdjMidi.addEventListener('prompts-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<Map<string, Prompt>>;
@@ -35,22 +67,88 @@ function main() {
     liveMusicHelper.setWeightedPrompts(prompts);
   }));
 
+  pdjMidi.addEventListener('config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<GenerationConfig>;
+    const config = customEvent.detail;
+    liveMusicHelper.setMusicGenerationConfig(config);
+  }));
+
+  pdjMidi.addEventListener('effects-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<EffectSettings>;
+    liveMusicHelper.effects.apply(customEvent.detail);
+  }));
+
+  pdjMidi.addEventListener('tap-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<{ tap: Tap; position: TapPosition }>;
+    setTap(customEvent.detail.tap, customEvent.detail.position);
+  }));
+
   pdjMidi.addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
   });
 
+  pdjMidi.addEventListener('record-toggle', (async (e: Event) => {
+    const customEvent = e as CustomEvent<RecordingFormat>;
+    if (audioRecorder.recording) {
+      const blob = await audioRecorder.stop();
+      downloadBlob(blob, recordingFilename(audioRecorder.extension));
+      return;
+    }
+    try {
+      audioRecorder.start(customEvent.detail);
+      audioRecorder.setLive(pdjMidi.playbackState === 'playing');
+    } catch (e: any) {
+      toastMessage.show(e.message);
+    }
+  }));
+
+  audioRecorder.addEventListener('recording-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<boolean>;
+    pdjMidi.recording = customEvent.detail;
+  }));
+
+  liveMusicHelper.addEventListener('audio-chunk', ((e: Event) => {
+    const customEvent = e as CustomEvent<Int16Array>;
+    audioRecorder.append(customEvent.detail);
+  }));
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<PlaybackState>;
-    const playbackState = customEvent.detail;
+    const customEvent = e as CustomEvent<PlaybackStateChange>;
+    const playbackState = customEvent.detail.state;
     pdjMidi.playbackState = playbackState;
     playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
+    audioRecorder.setLive(playbackState === 'playing');
+    // A new session starts the music over, so the recording is spliced.
+    if (playbackState === 'stopped' || playbackState === 'reconnecting' || playbackState === 'error') {
+      audioRecorder.markDiscontinuity();
+    }
+  }));
+
+  liveMusicHelper.addEventListener('buffer-stats', ((e: Event) => {
+    const customEvent = e as CustomEvent<BufferStats>;
+    pdjMidi.bufferStats = customEvent.detail;
   }));
 
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
     const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
     const filteredPrompt = customEvent.detail;
     toastMessage.show(filteredPrompt.filteredReason!)
-    pdjMidi.addFilteredPrompt(filteredPrompt.text!);
+    pdjMidi.flashFilteredPrompt(filteredPrompt.text!);
+  }));
+
+  liveMusicHelper.addEventListener('filtered-prompts-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<Map<string, FilteredPrompt>>;
+    pdjMidi.filteredPrompts = customEvent.detail;
+  }));
+
+  pdjMidi.addEventListener('clear-filter', ((e: Event) => {
+    const customEvent = e as CustomEvent<string>;
+    liveMusicHelper.clearFilteredPrompt(customEvent.detail);
+  }));
+
+  pdjMidi.addEventListener('retry-filter', ((e: Event) => {
+    const customEvent = e as CustomEvent<string>;
+    liveMusicHelper.retryFilteredPrompt(customEvent.detail);
   }));
 
   const errorToast = ((e: Event) => {
@@ -61,11 +159,12 @@ function main() {
 
   liveMusicHelper.addEventListener('error', errorToast);
   pdjMidi.addEventListener('error', errorToast);
+  audioRecorder.addEventListener('error', errorToast);
 
-  audioAnalyser.addEventListener('audio-level-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<number>;
-    const level = customEvent.detail;
-    pdjMidi.audioLevel = level;
+  audioAnalyser.addEventListener('audio-levels-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<AudioLevels>;
+    const levels = customEvent.detail;
+    pdjMidi.audioLevels = levels.bands;
   }));
 
 }
@@ -87,7 +186,9 @@ function buildInitialPrompts() {
       text,
       weight: startOn.includes(prompt) ? 1 : 0,
       cc: i,
+      channel: null,
       color,
+      note: null,
     });
   }
 
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer } from 'ws';
+import type { RawData, WebSocket } from 'ws';
+
+import type { WeightedPrompt } from '@google/genai';
+import type { GenerationConfig } from '../types';
+import { LocalSynthBackend } from '../utils/LocalSynthBackend';
+import { BACKEND_CHANNELS, BACKEND_SAMPLE_RATE } from '../utils/MusicBackend';
+
+export interface MockLyriaServerOptions {
+  /** 0 picks a free port. */
+  port?: number;
+  /** Prompt texts to reject, with the reason sent back, matched case-insensitively. */
+  filtered?: Record<string, string>;
+  /** Closes each session with an error after sending this many chunks. */
+  closeAfterChunks?: number;
+}
+
+/** Close codes the mock uses, the same ones the real service sends. */
+const CLOSE_INVALID_MESSAGE = 1007;
+const CLOSE_INTERNAL_ERROR = 1011;
+
+const MIME_TYPE = `audio/l16;rate=${BACKEND_SAMPLE_RATE};channels=${BACKEND_CHANNELS}`;
+
+/** One client connection, generating audio with the local synth. */
+class MockSession {
+  private readonly socket: WebSocket;
+  private readonly server: MockLyriaServer;
+  private readonly synth = new LocalSynthBackend();
+  private setupDone = false;
+  private chunksSent = 0;
+  /** Messages are handled one at a time, in the order they arrive. */
+  private pending = Promise.resolve();
+  /** Chunks aren't sent until this time, to starve the client's buffer. */
+  stalledUntil = 0;
+
+  constructor(socket: WebSocket, server: MockLyriaServer) {
+    this.socket = socket;
+    this.server = server;
+    this.synth.addEventListener('audio-chunk', ((e: CustomEvent<Uint8Array>) => {
+      this.sendChunk(e.detail);
+    }) as EventListener);
+    socket.on('message', (data) => {
+      this.pending = this.pending.then(() => this.handleMessage(data));
+    });
+    socket.on('close', () => {
+      this.synth.stop();
+      server.sessions.delete(this);
+    });
+  }
+
+  send(message: object) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  close(code: number, reason: string) {
+    this.synth.stop();
+    this.socket.close(code, reason);
+  }
+
+  /** Drops the connection without a close handshake, like a network failure. */
+  drop() {
+    this.synth.stop();
+    this.socket.terminate();
+  }
+
+  private async handleMessage(data: RawData) {
+    let message: Record<string, any>;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.close(CLOSE_INVALID_MESSAGE, 'Messages must be JSON.');
+      return;
+    }
+    if (!this.setupDone) {
+      if (!message.setup?.model) {
+        this.close(CLOSE_INVALID_MESSAGE, 'The first message must be a setup with a model.');
+        return;
+      }
+      this.setupDone = true;
+      await this.synth.connect();
+      this.send({ setupComplete: {} });
+      return;
+    }
+    if (message.clientContent) {
+      this.setWeightedPrompts(message.clientContent.weightedPrompts ?? []);
+    } else if ('musicGenerationConfig' in message) {
+      await this.synth.setConfig((message.musicGenerationConfig ?? {}) as GenerationConfig);
+    } else if (message.playbackControl) {
+      this.handlePlaybackControl(message.playbackControl);
+    } else {
+      this.close(CLOSE_INVALID_MESSAGE, `Unknown message: ${Object.keys(message).join(', ')}`);
+    }
+  }
+
+  private setWeightedPrompts(prompts: WeightedPrompt[]) {
+    if (prompts.length === 0) {
+      this.close(CLOSE_INVALID_MESSAGE, 'At least one weighted prompt is required.');
+      return;
+    }
+    const allowed = prompts.filter((prompt) => {
+      const reason = this.server.filterReason(prompt.text ?? '');
+      if (reason === undefined) return true;
+      this.send({ filteredPrompt: { text: prompt.text, filteredReason: reason } });
+      return false;
+    });
+    this.synth.setWeightedPrompts(allowed);
+  }
+
+  private async handlePlaybackControl(control: string) {
+    switch (control) {
+      case 'PLAY':
+        return this.synth.play();
+      case 'PAUSE':
+        return this.synth.pause();
+      case 'STOP':
+        this.synth.stop();
+        // Unlike a pause, a stop starts over from silence on the next play.
+        return this.synth.connect();
+      case 'RESET_CONTEXT':
+        return this.synth.resetContext();
+      default:
+        this.close(CLOSE_INVALID_MESSAGE, `Unknown playback control: ${control}`);
+    }
+  }
+
+  private sendChunk(pcm: Uint8Array) {
+    if (Date.now() < this.stalledUntil) return;
+    const data = Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).toString('base64');
+    this.send({ serverContent: { audioChunks: [{ data, mimeType: MIME_TYPE }] } });
+    this.chunksSent++;
+    const { closeAfterChunks } = this.server.options;
+    if (closeAfterChunks !== undefined && this.chunksSent >= closeAfterChunks) {
+      this.close(CLOSE_INTERNAL_ERROR, 'Simulated failure after the configured number of chunks.');
+    }
+  }
+}
+
+/**
+ * A stand-in for the Lyria RealTime service that speaks enough of its
+ * WebSocket protocol to develop and test against. Point the Gemini client at
+ * `baseUrl` and it connects here instead.
+ *
+ * Faults can be injected from code, or over HTTP while the app is running:
+ * `POST /control/filter?text=…&reason=…`, `/control/close?code=…&reason=…`,
+ * `/control/drop` and `/control/stall?ms=…`.
+ */
+export class MockLyriaServer {
+  readonly options: MockLyriaServerOptions;
+  readonly sessions = new Set<MockSession>();
+
+  private readonly filtered = new Map<string, string>();
+  private readonly httpServer: Server;
+  private readonly wsServer: WebSocketServer;
+
+  constructor(options: MockLyriaServerOptions = {}) {
+    this.options = options;
+    for (const [text, reason] of Object.entries(options.filtered ?? {})) {
+      this.filterPrompt(text, reason);
+    }
+    this.httpServer = createServer((req, res) => this.handleControl(req, res));
+    this.wsServer = new WebSocketServer({ server: this.httpServer });
+    this.wsServer.on('connection', (socket) => {
+      this.sessions.add(new MockSession(socket, this));
+    });
+  }
+
+  /** Starts listening and resolves with the port. */
+  listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port ?? 0, () => {
+        resolve((this.httpServer.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  get baseUrl() {
+    const { port } = this.httpServer.address() as AddressInfo;
+    return `http://localhost:${port}`;
+  }
+
+  async close() {
+    for (const session of this.sessions) session.drop();
+    await new Promise<void>((resolve) => this.wsServer.close(() => resolve()));
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+  }
+
+  filterReason(text: string) {
+    return this.filtered.get(text.trim().toLowerCase());
+  }
+
+  /** Rejects a prompt from now on, in every session. */
+  filterPrompt(text: string, reason = 'Prompt was filtered by the mock server.') {
+    this.filtered.set(text.trim().toLowerCase(), reason);
+  }
+
+  /** Closes every session with a close code, by default an internal error. */
+  closeSessions(code = CLOSE_INTERNAL_ERROR, reason = 'Simulated error.') {
+    for (const session of this.sessions) session.close(code, reason);
+  }
+
+  dropSessions() {
+    for (const session of this.sessions) session.drop();
+  }
+
+  /** Holds back audio for a while, so clients run out of buffered audio. */
+  stall(ms: number) {
+    for (const session of this.sessions) session.stalledUntil = Date.now() + ms;
+  }
+
+  private handleControl(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const param = (name: string) => url.searchParams.get(name) ?? undefined;
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    switch (url.pathname) {
+      case '/control/filter': {
+        const text = param('text');
+        if (!text) {
+          res.writeHead(400).end('A text is required.');
+          return;
+        }
+        this.filterPrompt(text, param('reason'));
+        break;
+      }
+      case '/control/close':
+        this.closeSessions(Number(param('code') ?? CLOSE_INTERNAL_ERROR), param('reason'));
+        break;
+      case '/control/drop':
+        this.dropSessions();
+        break;
+      case '/control/stall':
+        this.stall(Number(param('ms') ?? 5000));
+        break;
+      default:
+        res.writeHead(404).end();
+        return;
+    }
+    res.writeHead(204).end();
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Runs the mock Lyria server, see README.md.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseArgs } from 'node:util';
+
+import { MockLyriaServer } from './MockLyriaServer';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8765' },
+    filter: { type: 'string', multiple: true, default: [] },
+    'close-after': { type: 'string' },
+  },
+});
+
+// Each --filter is `text` or `text=reason`.
+const filtered = Object.fromEntries(values.filter.map((entry) => {
+  const [text, ...reason] = entry.split('=');
+  return [text, reason.join('=') || 'Prompt was filtered by the mock server.'];
+}));
+
+const closeAfter = values['close-after'];
+const server = new MockLyriaServer({
+  port: Number(values.port),
+  filtered,
+  closeAfterChunks: closeAfter === undefined ? undefined : Number(closeAfter),
+});
+
+const port = await server.listen();
+console.log(`Mock Lyria server on http://localhost:${port}`);
+console.log(`Run the app with LYRIA_BASE_URL=http://localhost:${port} to use it.`);
+
+process.on('SIGINT', async () => {
+  await server.close();
+  process.exit(0);
+});
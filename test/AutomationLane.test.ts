@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Prompt } from '../types';
+import { AutomationLane, parseAutomation } from '../utils/AutomationLane';
+
+const prompt: Prompt = { promptId: 'prompt-0', text: 'Bass', weight: 1, cc: 0, channel: null, color: '#fff', note: null };
+
+function file(length: number, events: unknown[]) {
+  return JSON.stringify({ version: 1, length, events });
+}
+
+describe('AutomationLane', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function weights(lane: AutomationLane) {
+    const replayed: number[] = [];
+    lane.addEventListener('automation-event', (e) => replayed.push((e as CustomEvent<Prompt>).detail.weight));
+    return replayed;
+  }
+
+  it('replays a recording at the times it was captured', () => {
+    const lane = new AutomationLane();
+    lane.record();
+    vi.advanceTimersByTime(200);
+    lane.capture({ ...prompt, weight: 0.5 });
+    vi.advanceTimersByTime(300);
+    lane.capture({ ...prompt, weight: 1.5 });
+    vi.advanceTimersByTime(100);
+    lane.stop();
+    expect(lane.automation.length).toBe(600);
+
+    const replayed = weights(lane);
+    lane.play();
+    vi.advanceTimersByTime(300);
+    expect(replayed).toEqual([0.5]);
+    vi.advanceTimersByTime(300);
+    expect(replayed).toEqual([0.5, 1.5]);
+    expect(lane.automationState).toBe('idle');
+  });
+
+  it('ignores changes while it is not recording', () => {
+    const lane = new AutomationLane();
+    lane.capture(prompt);
+    lane.automation = { length: 1000, events: [{ time: 500, prompt }] };
+    lane.play();
+    lane.capture({ ...prompt, weight: 0 });
+    lane.stop();
+    expect(lane.automation.events).toEqual([{ time: 500, prompt }]);
+  });
+
+  it('replaces a prompt\'s movements from where an overdub touched it', () => {
+    const other: Prompt = { ...prompt, promptId: 'prompt-1', text: 'Drums' };
+    const lane = new AutomationLane();
+    lane.automation = {
+      length: 1000,
+      events: [
+        { time: 100, prompt: { ...prompt, weight: 0.1 } },
+        { time: 700, prompt: { ...prompt, weight: 0.7 } },
+        { time: 800, prompt: other },
+      ],
+    };
+    const replayed = weights(lane);
+    lane.overdub();
+    vi.advanceTimersByTime(400);
+    lane.capture({ ...prompt, weight: 0.4 });
+    vi.advanceTimersByTime(600);
+
+    // The touched prompt's later movement is muted; the other prompt plays on.
+    expect(replayed).toEqual([0.1, 1]);
+    expect(lane.automation.events.map((e) => [e.time, e.prompt.weight])).toEqual([[100, 0.1], [400, 0.4], [800, 1]]);
+  });
+
+  it('loops a lane, replaying its events each pass', () => {
+    const lane = new AutomationLane();
+    const replayed = weights(lane);
+    lane.automation = { length: 1000, events: [{ time: 500, prompt }] };
+    lane.looping = true;
+    lane.play();
+    vi.advanceTimersByTime(2600);
+    expect(replayed).toEqual([1, 1, 1]);
+    lane.stop();
+  });
+
+  it('stops instead of looping a lane too short to loop', () => {
+    const lane = new AutomationLane();
+    const replayed = vi.fn();
+    lane.addEventListener('automation-event', replayed);
+    lane.automation = { length: 0, events: [{ time: 0, prompt }] };
+    lane.looping = true;
+    lane.play();
+    vi.advanceTimersByTime(1000);
+    expect(replayed).toHaveBeenCalledTimes(1);
+    expect(lane.automationState).toBe('idle');
+  });
+});
+
+describe('parseAutomation', () => {
+  it('reads back a valid lane', () => {
+    expect(parseAutomation(file(1000, [{ time: 500, prompt }]))).toEqual({ length: 1000, events: [{ time: 500, prompt }] });
+  });
+
+  it('rejects events past the end of the lane', () => {
+    expect(() => parseAutomation(file(100, [{ time: 500, prompt }]))).toThrow(/within the lane's length/);
+  });
+
+  it('validates the notes of recorded prompts', () => {
+    const note = { note: 200, channel: null, mode: 'toggle' };
+    expect(() => parseAutomation(file(1000, [{ time: 0, prompt: { ...prompt, note } }])))
+      .toThrow(/events\[0\]\.prompt\.note\.note must be an integer/);
+  });
+});
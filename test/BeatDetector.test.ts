@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { BeatDetector } from '../utils/BeatDetector';
+
+const FRAME_SECONDS = 1 / 60;
+
+/** Feeds `seconds` of frames with a kick every beat at `bpm`, returning the onset times. */
+function feedKicks(detector: BeatDetector, bpm: number, seconds: number, startTime = 0) {
+  const onsets: number[] = [];
+  const beatFrames = Math.round(60 / bpm / FRAME_SECONDS);
+  const frames = Math.round(seconds / FRAME_SECONDS);
+  for (let frame = 0; frame < frames; frame++) {
+    const sinceBeat = frame % beatFrames;
+    // A kick decays over a few frames above a low bed.
+    const energy = sinceBeat < 4 ? 0.8 - sinceBeat * 0.15 : 0.1;
+    const time = startTime + frame * FRAME_SECONDS;
+    if (detector.process(energy, time) > 0) onsets.push(time);
+  }
+  return onsets;
+}
+
+describe('BeatDetector', () => {
+  it('finds one onset per kick', () => {
+    const detector = new BeatDetector();
+    const onsets = feedKicks(detector, 120, 4);
+    // The first beat is spent learning the average.
+    expect(onsets).toHaveLength(7);
+    expect(onsets[1] - onsets[0]).toBeCloseTo(0.5);
+  });
+
+  it('estimates the tempo once there are enough beats', () => {
+    const detector = new BeatDetector();
+    feedKicks(detector, 120, 1.5);
+    expect(detector.bpm).toBeNull();
+    feedKicks(detector, 120, 4, 1.5);
+    expect(detector.bpm).toBe(120);
+  });
+
+  it('folds slow and fast beats into one octave', () => {
+    const detector = new BeatDetector();
+    feedKicks(detector, 60, 8);
+    expect(detector.bpm).toBe(120);
+  });
+
+  it('ignores a steady level, however loud', () => {
+    const detector = new BeatDetector();
+    const onsets = Array.from({ length: 120 }, (_, i) => detector.process(0.9, i * FRAME_SECONDS)).filter((s) => s > 0);
+    expect(onsets).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { EffectSettings } from '../types';
+import { EffectsChain } from '../utils/EffectsChain';
+import { defaultEffectSettings } from '../utils/effects';
+import { FakeAudioContext, FakeBiquadFilterNode, FakeConvolverNode, FakeDelayNode, FakeGainNode } from './fakes';
+
+function setup() {
+  const ctx = new FakeAudioContext();
+  const filters: FakeBiquadFilterNode[] = [];
+  const gains: FakeGainNode[] = [];
+  let delay: FakeDelayNode | null = null;
+  let convolver: FakeConvolverNode | null = null;
+  vi.spyOn(ctx, 'createBiquadFilter').mockImplementation(() => {
+    const filter = new FakeBiquadFilterNode();
+    filters.push(filter);
+    return filter;
+  });
+  vi.spyOn(ctx, 'createGain').mockImplementation(() => {
+    const gain = new FakeGainNode();
+    gains.push(gain);
+    return gain;
+  });
+  vi.spyOn(ctx, 'createDelay').mockImplementation(() => (delay = new FakeDelayNode()));
+  vi.spyOn(ctx, 'createConvolver').mockImplementation(() => (convolver = new FakeConvolverNode()));
+  const chain = new EffectsChain(ctx as unknown as AudioContext);
+  const [highpass, lowpass] = [filters.find((f) => f.type === 'highpass')!, filters.find((f) => f.type === 'lowpass')!];
+  return { ctx, chain, gains, highpass, lowpass, delay: delay!, convolver: convolver! };
+}
+
+function settings(change: (settings: EffectSettings) => void) {
+  const settings = defaultEffectSettings();
+  change(settings);
+  return settings;
+}
+
+describe('EffectsChain', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes the signal through untouched while every effect is bypassed', () => {
+    const { gains } = setup();
+    // Each unit is input, dry, wet and output, after the chain's input, output and delay feedback.
+    const units = [0, 1, 2, 3].map((i) => gains.slice(3 + i * 4, 7 + i * 4));
+    expect(units.map(([, dry, wet]) => [dry.gain.value, wet.gain.value])).toEqual([[1, 0], [1, 0], [1, 0], [1, 0]]);
+  });
+
+  it('blends a time-based effect with equal power', () => {
+    const { chain, gains } = setup();
+    chain.apply(settings((s) => {
+      s.bypassed.delay = false;
+      s.params.delayMix = 0.5;
+    }));
+    const [, dry, wet] = gains.slice(11, 15);
+    expect(dry.gain.value).toBeCloseTo(Math.SQRT1_2);
+    expect(wet.gain.value).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('blends the filter and EQ with equal gain', () => {
+    const { chain, gains } = setup();
+    chain.apply(settings((s) => {
+      s.bypassed.filter = false;
+      s.bypassed.eq = false;
+      s.params.filterMix = 0.5;
+      s.params.eqMix = 0.25;
+    }));
+    const units = [0, 1].map((i) => gains.slice(3 + i * 4, 7 + i * 4));
+    expect(units.map(([, dry, wet]) => [dry.gain.value, wet.gain.value])).toEqual([[0.5, 0.5], [0.75, 0.25]]);
+  });
+
+  it('closes the low-pass below the middle of the filter and the high-pass above it', () => {
+    const { chain, highpass, lowpass } = setup();
+    chain.apply(settings((s) => { s.params.filterCutoff = -1; s.params.filterResonance = 8; }));
+    expect(lowpass.frequency.value).toBeCloseTo(80);
+    expect(lowpass.Q.value).toBe(8);
+    expect(highpass.frequency.value).toBe(20);
+    expect(highpass.Q.value).toBeCloseTo(Math.SQRT1_2);
+
+    chain.apply(settings((s) => { s.params.filterCutoff = 1; }));
+    expect(lowpass.frequency.value).toBe(20000);
+    expect(highpass.frequency.value).toBeCloseTo(8000);
+  });
+
+  it('keeps the delay in time with the BPM', () => {
+    const { chain, delay } = setup();
+    // A dotted eighth.
+    chain.apply(settings((s) => { s.params.delayDivision = 2; }));
+    chain.setBpm(120);
+    expect(delay.delayTime.value).toBeCloseTo(0.375);
+    chain.setBpm(90);
+    expect(delay.delayTime.value).toBeCloseTo(0.5);
+  });
+
+  it('regenerates the reverb once the size settles', async () => {
+    const { chain, convolver } = setup();
+    await vi.advanceTimersByTimeAsync(150);
+    for (const size of [3, 4, 5]) chain.apply(settings((s) => { s.params.reverbSize = size; }));
+    await vi.advanceTimersByTimeAsync(150);
+    expect(convolver.buffer!.duration).toBe(5);
+  });
+
+  it('moves a tap between the two sides of the chain', () => {
+    const { chain } = setup();
+    const node = new FakeGainNode() as unknown as AudioNode;
+    chain.setTap(node, 'pre');
+    expect(chain.input.connect).toHaveBeenCalledWith(node);
+    chain.setTap(node, 'post');
+    expect(chain.input.disconnect).toHaveBeenCalledWith(node);
+    expect(chain.output.connect).toHaveBeenCalledWith(node);
+  });
+});
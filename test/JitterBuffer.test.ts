@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { JitterBuffer } from '../utils/JitterBuffer';
+
+describe('JitterBuffer', () => {
+  it('grows the target after each underrun, up to the maximum', () => {
+    const buffer = new JitterBuffer({ initialTarget: 2, maxTarget: 4 });
+    buffer.underrun(0);
+    expect(buffer.target).toBe(3);
+    buffer.underrun(1);
+    expect(buffer.target).toBe(4);
+    expect(buffer.underruns).toBe(2);
+  });
+
+  it('shrinks the target after a stable stretch, down to the minimum', () => {
+    const buffer = new JitterBuffer({ initialTarget: 2, minTarget: 1.5, stableSeconds: 10 });
+    for (let time = 0; time <= 30; time++) buffer.arrive(time, 1);
+    expect(buffer.target).toBe(1.5);
+  });
+
+  it('waits for a stable stretch after an underrun before shrinking', () => {
+    const buffer = new JitterBuffer({ initialTarget: 2, stableSeconds: 10 });
+    for (let time = 0; time < 8; time++) buffer.arrive(time, 1);
+    buffer.underrun(8);
+    for (let time = 8; time < 17; time++) buffer.arrive(time, 1);
+    expect(buffer.target).toBe(3);
+    buffer.arrive(18, 1);
+    expect(buffer.target).toBeCloseTo(2.4);
+  });
+
+  it('measures how irregularly chunks arrive', () => {
+    const buffer = new JitterBuffer();
+    for (let time = 0; time < 20; time++) buffer.arrive(time, 1);
+    expect(buffer.jitter).toBe(0);
+    // Alternately half a second early and late.
+    for (let i = 0; i < 40; i++) buffer.arrive(20 + i + (i % 2 ? 0.25 : -0.25), 1);
+    expect(buffer.jitter).toBeGreaterThan(0.3);
+  });
+
+  it('never shrinks below a few times the jitter', () => {
+    const buffer = new JitterBuffer({ initialTarget: 4, minTarget: 0.5, stableSeconds: 5 });
+    for (let i = 0; i < 200; i++) buffer.arrive(i + (i % 2 ? 0.25 : -0.25), 1);
+    expect(buffer.target).toBeGreaterThan(4 * buffer.jitter - 0.01);
+    expect(buffer.target).toBeLessThan(4);
+  });
+});
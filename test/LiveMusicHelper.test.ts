@@ -0,0 +1,454 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { BufferStats, FilteredPrompt, PlaybackState, PlaybackStateChange, Prompt } from '../types';
+import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import { FakeAudioContext, FakeAudioWorkletNode, FakeBackend, FakeDecodeWorker } from './fakes';
+
+function prompts(...weights: number[]) {
+  return new Map<string, Prompt>(weights.map((weight, i) => [`prompt-${i}`, {
+    promptId: `prompt-${i}`,
+    text: `Prompt ${i}`,
+    weight,
+    cc: i,
+    channel: null,
+    color: '#fff',
+    note: null,
+  }]));
+}
+
+function setup(options = {}) {
+  const backend = new FakeBackend();
+  const helper = new LiveMusicHelper(backend, options);
+  const ctx = helper.audioContext as unknown as FakeAudioContext;
+  const changes: PlaybackStateChange[] = [];
+  const states: PlaybackState[] = [];
+  const errors: string[] = [];
+  helper.addEventListener('playback-state-changed', (e) => {
+    const change = (e as CustomEvent<PlaybackStateChange>).detail;
+    changes.push(change);
+    states.push(change.state);
+  });
+  helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+  helper.setWeightedPrompts(prompts(1, 0));
+  return { backend, helper, ctx, changes, states, errors };
+}
+
+/** Lets pending promises, and the decode and buffering of any chunk, settle. */
+async function settle() {
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('LiveMusicHelper', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    vi.stubGlobal('Worker', FakeDecodeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('play', () => {
+    it('connects, sends the active prompts and starts the backend before buffering', async () => {
+      const { backend, helper, states } = setup();
+      await helper.play();
+      expect(states).toEqual(['connecting', 'buffering']);
+      expect(backend.connect).toHaveBeenCalledTimes(1);
+      expect(backend.setWeightedPrompts).toHaveBeenCalledWith([{ text: 'Prompt 0', weight: 1 }]);
+      expect(backend.play).toHaveBeenCalled();
+    });
+
+    it('sends the config only once one has been set', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      expect(backend.setConfig).not.toHaveBeenCalled();
+
+      helper.stop();
+      helper.setMusicGenerationConfig({ density: 0.3 });
+      await helper.play();
+      expect(backend.setConfig).toHaveBeenCalledWith({ density: 0.3 });
+    });
+
+    it('starts playing once the first chunk has buffered', async () => {
+      const { backend, helper, ctx, states } = setup();
+      await helper.play();
+      backend.sendChunk(96000);
+      await settle();
+      expect(states).toEqual(['connecting', 'buffering']);
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states).toEqual(['connecting', 'buffering', 'playing']);
+    });
+
+    it('holds back until the buffer reaches its target', async () => {
+      const { backend, helper, ctx, states } = setup();
+      await helper.play();
+      backend.sendChunk(48000);
+      await settle();
+      ctx.worklets[0].render(0.5);
+      await settle();
+      expect(states.at(-1)).toBe('buffering');
+      backend.sendChunk(48000);
+      await settle();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states.at(-1)).toBe('playing');
+    });
+
+    it('re-buffers for longer when the buffer runs dry', async () => {
+      const { backend, helper, ctx, states } = setup();
+      const stats: BufferStats[] = [];
+      helper.addEventListener('buffer-stats', (e) => stats.push((e as CustomEvent<BufferStats>).detail));
+      await helper.play();
+      backend.sendChunk(96000);
+      await settle();
+      ctx.worklets[0].render(2.1);
+      await settle();
+      expect(states.slice(2)).toEqual(['playing', 'buffering']);
+
+      backend.sendChunk(96000);
+      await settle();
+      expect(stats.at(-1)).toMatchObject({ depth: 2, target: 3, underruns: 1 });
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states.at(-1)).toBe('buffering');
+      backend.sendChunk(48000);
+      await settle();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states.at(-1)).toBe('playing');
+    });
+
+    it('reports a chunk that cannot be decoded and carries on', async () => {
+      const { backend, helper, ctx, states, errors } = setup();
+      await helper.play();
+      backend.dispatchEvent(new CustomEvent('audio-chunk', { detail: 'not base64!' }));
+      await settle();
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^Couldn't decode audio/);
+
+      backend.sendChunk(96000);
+      await settle();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states.at(-1)).toBe('playing');
+    });
+
+    it('reports how far ahead the buffer is', async () => {
+      const { backend, helper } = setup();
+      const stats: BufferStats[] = [];
+      helper.addEventListener('buffer-stats', (e) => stats.push((e as CustomEvent<BufferStats>).detail));
+      await helper.play();
+      backend.sendChunk(4800);
+      backend.sendChunk(4800);
+      await settle();
+      expect(stats.map((s) => s.depth)).toEqual([0.1, 0.2]);
+      expect(stats[0]).toMatchObject({ target: 2, underruns: 0 });
+    });
+
+    it('pauses with an error when no prompt is active', async () => {
+      const { backend, helper, states, errors } = setup();
+      helper.setWeightedPrompts(prompts(0, 0));
+      await helper.play();
+      expect(errors.at(-1)).toBe('There needs to be one active prompt to play.');
+      expect(states.at(-1)).toBe('paused');
+      expect(backend.setWeightedPrompts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pause and stop', () => {
+    it('pauses the backend and ignores the chunks that follow for playback', async () => {
+      const { backend, helper, ctx, states } = setup();
+      const chunks: Int16Array[] = [];
+      helper.addEventListener('audio-chunk', (e) => chunks.push((e as CustomEvent<Int16Array>).detail));
+      await helper.play();
+      helper.pause();
+      backend.sendChunk();
+      await settle();
+      expect(backend.pause).toHaveBeenCalled();
+      expect(states.at(-1)).toBe('paused');
+      expect(ctx.worklets[0].messages.filter((m) => m.type === 'push')).toHaveLength(0);
+      // They're still passed on for recording.
+      expect(chunks).toHaveLength(1);
+    });
+
+    it('resumes on the same connection after a pause', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      helper.pause();
+      await helper.playPause();
+      expect(backend.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the backend, drops chunks and reconnects on the next play', async () => {
+      const { backend, helper, states } = setup();
+      const chunks: Int16Array[] = [];
+      helper.addEventListener('audio-chunk', (e) => chunks.push((e as CustomEvent<Int16Array>).detail));
+      await helper.play();
+      helper.stop();
+      backend.sendChunk();
+      await settle();
+      expect(backend.stop).toHaveBeenCalled();
+      expect(states.at(-1)).toBe('stopped');
+      expect(chunks).toHaveLength(0);
+
+      await helper.play();
+      expect(backend.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it('toggles between playing, paused and stopped with playPause', async () => {
+      const { backend, helper, ctx, states } = setup();
+      await helper.playPause();
+      // Pressing again while buffering gives up on starting.
+      await helper.playPause();
+      expect(states).toEqual(['connecting', 'buffering', 'stopped']);
+
+      await helper.playPause();
+      backend.sendChunk(96000);
+      await settle();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      await helper.playPause();
+      expect(states.slice(3)).toEqual(['connecting', 'buffering', 'playing', 'paused']);
+    });
+  });
+
+  describe('state machine', () => {
+    it('tells listeners what each change moved from and why', async () => {
+      const { backend, helper, ctx, changes } = setup();
+      await helper.play();
+      backend.sendChunk(96000);
+      await settle();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(changes).toEqual([
+        { state: 'connecting', previous: 'stopped', reason: 'play' },
+        { state: 'buffering', previous: 'connecting', reason: 'connected' },
+        { state: 'playing', previous: 'buffering', reason: 'buffered' },
+      ]);
+    });
+
+    it('stays paused when the buffer fills after a pause', async () => {
+      const { backend, helper, ctx, states } = setup();
+      await helper.play();
+      backend.sendChunk(96000);
+      await settle();
+      helper.pause();
+      ctx.worklets[0].render(0.01);
+      await settle();
+      expect(states).toEqual(['connecting', 'buffering', 'paused']);
+    });
+
+    it('drops a connection still being opened when stopped', async () => {
+      const { backend, helper, states } = setup();
+      const playing = helper.play();
+      helper.stop();
+      await playing;
+      expect(states).toEqual(['connecting', 'stopped']);
+      expect(backend.disconnect).toHaveBeenCalled();
+      expect(backend.play).not.toHaveBeenCalled();
+    });
+
+    it('abandons starting when paused while connecting', async () => {
+      const { backend, helper, states } = setup();
+      const playing = helper.play();
+      helper.pause();
+      await playing;
+      expect(states).toEqual(['connecting', 'paused']);
+      expect(backend.play).not.toHaveBeenCalled();
+    });
+
+    it('moves to the error state when connecting fails, and tries again on play', async () => {
+      const { backend, helper, changes, errors } = setup();
+      backend.connect.mockRejectedValueOnce(new Error('offline'));
+      await helper.play();
+      expect(changes.at(-1)).toEqual({ state: 'error', previous: 'connecting', reason: 'connect-failed' });
+      expect(errors).toEqual(["Couldn't connect to the music service: offline"]);
+
+      await helper.playPause();
+      expect(changes.at(-1)).toEqual({ state: 'buffering', previous: 'connecting', reason: 'connected' });
+    });
+  });
+
+  describe('connection loss', () => {
+    it('reconnects with backoff and restores the prompts and config', async () => {
+      const { backend, helper, changes, states } = setup({ reconnectBaseDelayMs: 100 });
+      helper.setMusicGenerationConfig({ density: 0.3 });
+      await helper.play();
+      backend.setWeightedPrompts.mockClear();
+      backend.setConfig.mockClear();
+
+      backend.dispatchEvent(new CustomEvent('connection-lost'));
+      expect(states.at(-1)).toBe('reconnecting');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(backend.connect).toHaveBeenCalledTimes(2);
+      expect(backend.setWeightedPrompts).toHaveBeenCalledWith([{ text: 'Prompt 0', weight: 1 }]);
+      expect(backend.setConfig).toHaveBeenCalledWith({ density: 0.3 });
+      expect(backend.play).toHaveBeenCalledTimes(2);
+      expect(changes.at(-1)).toEqual({ state: 'buffering', previous: 'reconnecting', reason: 'reconnected' });
+    });
+
+    it('gives up with an error after the last attempt', async () => {
+      const { backend, helper, changes, errors } = setup({ maxReconnectAttempts: 2, reconnectBaseDelayMs: 100 });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await helper.play();
+      backend.connect.mockRejectedValue(new Error('offline'));
+
+      backend.dispatchEvent(new CustomEvent('connection-lost'));
+      await vi.advanceTimersByTimeAsync(100 + 200);
+      expect(backend.connect).toHaveBeenCalledTimes(3);
+      // Once per failed attempt, and once more on giving up.
+      expect(backend.disconnect).toHaveBeenCalledTimes(3);
+      expect(changes.at(-1)).toEqual({ state: 'error', previous: 'reconnecting', reason: 'reconnect-failed' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/couldn't reconnect after 2 attempts/);
+      warn.mockRestore();
+    });
+
+    it('stops trying once the user stops', async () => {
+      const { backend, helper } = setup({ reconnectBaseDelayMs: 100 });
+      await helper.play();
+      backend.dispatchEvent(new CustomEvent('connection-lost'));
+      helper.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('moves to the error state when the connection drops while paused', async () => {
+      const { backend, helper, changes, errors } = setup();
+      await helper.play();
+      helper.pause();
+      backend.dispatchEvent(new CustomEvent('connection-lost'));
+      expect(changes.at(-1)).toEqual({ state: 'error', previous: 'paused', reason: 'connection-lost' });
+      expect(errors).toEqual(['Connection error, please restart audio.']);
+    });
+
+    it('ignores the connection dropping once stopped', async () => {
+      const { backend, helper, states, errors } = setup();
+      await helper.play();
+      helper.pause();
+      helper.stop();
+      backend.dispatchEvent(new CustomEvent('connection-lost'));
+      expect(states.at(-1)).toBe('stopped');
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('prompt updates', () => {
+    it('always delivers the end of a knob sweep', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      await vi.advanceTimersByTimeAsync(1000);
+      backend.setWeightedPrompts.mockClear();
+      for (const weight of [0.2, 0.4, 0.6, 0.8]) helper.setWeightedPrompts(prompts(weight, 0));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setWeightedPrompts.mock.calls).toEqual([
+        [[{ text: 'Prompt 0', weight: 0.2 }]],
+        [[{ text: 'Prompt 0', weight: 0.8 }]],
+      ]);
+    });
+
+    it('skips updates that leave the active prompts unchanged', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      // Prompt 1 is silent, so moving it within zero changes nothing sent.
+      await helper.setWeightedPrompts(prompts(1, 0));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setWeightedPrompts).toHaveBeenCalledTimes(1);
+    });
+
+    it('resends the prompts to a new connection', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      helper.stop();
+      await helper.play();
+      expect(backend.setWeightedPrompts).toHaveBeenCalledTimes(2);
+    });
+
+    it('delivers the end of a config sweep', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      for (const density of [0.1, 0.2, 0.3]) helper.setMusicGenerationConfig({ density });
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setConfig.mock.calls.at(-1)).toEqual([{ density: 0.3 }]);
+    });
+  });
+
+  describe('filtered prompts', () => {
+    function filter(backend: FakeBackend, text: string) {
+      backend.dispatchEvent(new CustomEvent('filtered-prompt', { detail: { text, filteredReason: 'No' } }));
+    }
+
+    function trackFiltered(helper: LiveMusicHelper) {
+      const lists: FilteredPrompt[][] = [];
+      helper.addEventListener('filtered-prompts-changed', (e) => {
+        lists.push([...(e as CustomEvent<Map<string, FilteredPrompt>>).detail.values()]);
+      });
+      return lists;
+    }
+
+    it('leaves filtered prompts out of the active prompts', async () => {
+      const { backend, helper } = setup();
+      const filtered: unknown[] = [];
+      helper.addEventListener('filtered-prompt', (e) => filtered.push((e as CustomEvent).detail));
+      helper.setWeightedPrompts(prompts(1, 1));
+      filter(backend, 'Prompt 1');
+      expect(filtered).toEqual([{ text: 'Prompt 1', filteredReason: 'No' }]);
+      expect(helper.activePrompts.map((p) => p.text)).toEqual(['Prompt 0']);
+    });
+
+    it('reports each filtered prompt with its reason and when it was filtered', () => {
+      const { backend, helper } = setup();
+      const lists = trackFiltered(helper);
+      vi.setSystemTime(1000);
+      filter(backend, 'Prompt 0');
+      expect(lists).toEqual([[{ text: 'Prompt 0', reason: 'No', time: 1000 }]]);
+    });
+
+    it('checks a text again once it has been edited away and back', () => {
+      const { backend, helper } = setup();
+      const lists = trackFiltered(helper);
+      helper.setWeightedPrompts(prompts(1, 1));
+      filter(backend, 'Prompt 1');
+
+      const edited = prompts(1, 1);
+      edited.get('prompt-1')!.text = 'Something else';
+      helper.setWeightedPrompts(edited);
+      expect(lists.at(-1)).toEqual([]);
+
+      helper.setWeightedPrompts(prompts(1, 1));
+      expect(helper.activePrompts.map((p) => p.text)).toEqual(['Prompt 0', 'Prompt 1']);
+    });
+
+    it('sends a retried prompt straight away, and a cleared one with the next change', async () => {
+      const { backend, helper } = setup();
+      await helper.play();
+      helper.setWeightedPrompts(prompts(1, 1));
+      filter(backend, 'Prompt 1');
+      filter(backend, 'Prompt 0');
+      await vi.advanceTimersByTimeAsync(1000);
+      backend.setWeightedPrompts.mockClear();
+
+      helper.retryFilteredPrompt('Prompt 1');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setWeightedPrompts).toHaveBeenLastCalledWith([{ text: 'Prompt 1', weight: 1 }]);
+
+      helper.clearFilteredPrompt('Prompt 0');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setWeightedPrompts).toHaveBeenCalledTimes(1);
+      helper.setWeightedPrompts(prompts(1, 0.5));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(backend.setWeightedPrompts).toHaveBeenLastCalledWith([
+        { text: 'Prompt 0', weight: 1 },
+        { text: 'Prompt 1', weight: 0.5 },
+      ]);
+    });
+  });
+});
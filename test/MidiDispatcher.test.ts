@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ControlChange, NoteMessage } from '../types';
+import { formatBinding, formatNote, matchesBinding, MidiDispatcher } from '../utils/MidiDispatcher';
+
+interface FakeInput {
+  id: string;
+  name: string;
+  onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+interface FakeOutput {
+  id: string;
+  name: string;
+  send: ReturnType<typeof vi.fn>;
+}
+
+/** A MIDIAccess with one input and one output per device name. */
+function fakeMidiAccess(names: string[]) {
+  const inputs = new Map<string, FakeInput>();
+  const outputs = new Map<string, FakeOutput>();
+  names.forEach((name, i) => {
+    inputs.set(`in-${i}`, { id: `in-${i}`, name, onmidimessage: null });
+    outputs.set(`out-${i}`, { id: `out-${i}`, name, send: vi.fn() });
+  });
+  return { inputs, outputs };
+}
+
+async function connect(names = ['Knobs', 'Pads']) {
+  const access = fakeMidiAccess(names);
+  vi.stubGlobal('navigator', { requestMIDIAccess: vi.fn(async () => access) });
+  const dispatcher = new MidiDispatcher();
+  const inputIds = await dispatcher.getMidiAccess();
+  const cc: ControlChange[] = [];
+  const notes: NoteMessage[] = [];
+  dispatcher.addEventListener('cc-message', (e) => cc.push((e as CustomEvent<ControlChange>).detail));
+  dispatcher.addEventListener('note-message', (e) => notes.push((e as CustomEvent<NoteMessage>).detail));
+  const send = (inputId: string, ...bytes: number[]) => {
+    access.inputs.get(inputId)!.onmidimessage!({ data: new Uint8Array(bytes) });
+  };
+  return { access, dispatcher, inputIds, cc, notes, send };
+}
+
+describe('MidiDispatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('lists the inputs and makes the first one active', async () => {
+    const { dispatcher, inputIds } = await connect();
+    expect(inputIds).toEqual(['in-0', 'in-1']);
+    expect(dispatcher.activeMidiInputId).toBe('in-0');
+    expect(dispatcher.getDeviceName('in-1')).toBe('Pads');
+  });
+
+  it('throws without Web MIDI support', async () => {
+    vi.stubGlobal('navigator', {});
+    await expect(new MidiDispatcher().getMidiAccess()).rejects.toThrow(/does not support the Web MIDI API/);
+  });
+
+  describe('status byte parsing', () => {
+    it('reads the channel and CC from a control change', async () => {
+      const { cc, send } = await connect();
+      send('in-0', 0xb0, 74, 100);
+      send('in-0', 0xbf, 1, 0);
+      expect(cc).toEqual([
+        { channel: 0, cc: 74, value: 100 },
+        { channel: 15, cc: 1, value: 0 },
+      ]);
+    });
+
+    it('reads note-on messages with their velocity', async () => {
+      const { notes, send } = await connect();
+      send('in-0', 0x92, 60, 90);
+      expect(notes).toEqual([{ channel: 2, note: 60, velocity: 90 }]);
+    });
+
+    it('turns note-off messages into zero velocity', async () => {
+      const { notes, send } = await connect();
+      send('in-0', 0x82, 60, 64);
+      send('in-0', 0x92, 61, 0);
+      expect(notes).toEqual([
+        { channel: 2, note: 60, velocity: 0 },
+        { channel: 2, note: 61, velocity: 0 },
+      ]);
+    });
+
+    it('ignores other message types', async () => {
+      const { cc, notes, send } = await connect();
+      send('in-0', 0xe0, 0, 64);
+      send('in-0', 0xc0, 5);
+      send('in-0', 0xf8);
+      expect(cc).toEqual([]);
+      expect(notes).toEqual([]);
+    });
+
+    it('logs messages without data', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { access, cc } = await connect();
+      access.inputs.get('in-0')!.onmidimessage!({ data: null });
+      expect(cc).toEqual([]);
+      expect(error).toHaveBeenCalledWith('MIDI message has no data');
+      error.mockRestore();
+    });
+  });
+
+  describe('active input filtering', () => {
+    it('ignores inputs that are not active', async () => {
+      const { cc, send } = await connect();
+      send('in-1', 0xb0, 1, 1);
+      expect(cc).toEqual([]);
+    });
+
+    it('follows the active input when it changes', async () => {
+      const { dispatcher, cc, send } = await connect();
+      dispatcher.activeMidiInputId = 'in-1';
+      send('in-0', 0xb0, 1, 1);
+      send('in-1', 0xb0, 2, 2);
+      expect(cc).toEqual([{ channel: 0, cc: 2, value: 2 }]);
+    });
+
+    it('ignores every input when none is active', async () => {
+      const { dispatcher, cc, send } = await connect();
+      dispatcher.activeMidiInputId = null;
+      send('in-0', 0xb0, 1, 1);
+      expect(cc).toEqual([]);
+    });
+  });
+
+  describe('feedback', () => {
+    it('sends to the output of the active device, deduplicated', async () => {
+      const { access, dispatcher } = await connect();
+      dispatcher.sendControlChange({ cc: 3, channel: 1 }, 64);
+      dispatcher.sendControlChange({ cc: 3, channel: 1 }, 64);
+      vi.advanceTimersByTime(20);
+      expect(access.outputs.get('out-0')!.send.mock.calls).toEqual([[[0xb1, 3, 64]]]);
+      expect(access.outputs.get('out-1')!.send).not.toHaveBeenCalled();
+    });
+
+    it('holds back feedback for a CC the device just sent', async () => {
+      const { access, dispatcher, send } = await connect();
+      send('in-0', 0xb0, 3, 10);
+      dispatcher.sendControlChange({ cc: 3, channel: 0 }, 10);
+      vi.advanceTimersByTime(20);
+      expect(access.outputs.get('out-0')!.send).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(200);
+      expect(access.outputs.get('out-0')!.send).toHaveBeenCalledWith([0xb0, 3, 10]);
+    });
+
+    it('spreads bursts of feedback over several flushes', async () => {
+      const { access, dispatcher } = await connect();
+      for (let cc = 0; cc < 20; cc++) dispatcher.sendControlChange({ cc, channel: null }, 1);
+      const { send } = access.outputs.get('out-0')!;
+      vi.advanceTimersByTime(20);
+      expect(send).toHaveBeenCalledTimes(8);
+      vi.advanceTimersByTime(40);
+      expect(send).toHaveBeenCalledTimes(20);
+    });
+
+    it('queues flashes with the rest of the feedback, then restores the pad', async () => {
+      const { access, dispatcher } = await connect();
+      const pad = { note: 36, channel: null, mode: 'toggle' } as const;
+      dispatcher.sendNote(pad, 100);
+      for (let cc = 0; cc < 20; cc++) dispatcher.sendControlChange({ cc, channel: null }, 1);
+      dispatcher.flashNote(pad, 1, 100);
+      const { send } = access.outputs.get('out-0')!;
+      vi.advanceTimersByTime(20);
+      expect(send).toHaveBeenCalledTimes(8);
+      expect(send).toHaveBeenCalledWith([0x90, 36, 127]);
+
+      vi.advanceTimersByTime(500);
+      const pads = send.mock.calls.map(([message]) => message).filter(([status]) => status === 0x90);
+      expect(pads).toEqual([[0x90, 36, 127], [0x90, 36, 0], [0x90, 36, 100]]);
+    });
+  });
+});
+
+describe('MIDI helpers', () => {
+  it('matches bindings on CC and channel, or any channel in omni', () => {
+    const change = { channel: 2, cc: 7, value: 0 };
+    expect(matchesBinding({ cc: 7, channel: 2 }, change)).toBe(true);
+    expect(matchesBinding({ cc: 7, channel: 3 }, change)).toBe(false);
+    expect(matchesBinding({ cc: 7, channel: null }, change)).toBe(true);
+    expect(matchesBinding({ cc: 8, channel: null }, change)).toBe(false);
+  });
+
+  it('formats bindings and notes for display', () => {
+    expect(formatBinding({ cc: 74, channel: 2 })).toBe('CH3 CC:74');
+    expect(formatBinding({ cc: 74, channel: null })).toBe('OMNI CC:74');
+    expect(formatNote(60)).toBe('C4');
+    expect(formatNote(61)).toBe('C#4');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ReactiveController, ReactiveControllerHost } from 'lit';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ControlChange, MidiBinding } from '../types';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiLearnController } from '../utils/MidiLearnController';
+
+type Control = 'a' | 'b';
+
+function setup() {
+  const dispatcher = new EventTarget();
+  const bindings: Record<Control, MidiBinding> = { a: { cc: 1, channel: null }, b: { cc: 2, channel: 5 } };
+  const controllers: ReactiveController[] = [];
+  const host: ReactiveControllerHost = {
+    addController: (controller) => controllers.push(controller),
+    removeController: () => {},
+    requestUpdate: vi.fn(),
+    updateComplete: Promise.resolve(true),
+  };
+  const onControlChange = vi.fn();
+  const learn = new MidiLearnController<Control>(host, {
+    dispatcher: () => dispatcher as MidiDispatcher,
+    binding: (control) => bindings[control],
+    setBinding: (control, binding) => { bindings[control] = binding; },
+    onControlChange,
+  });
+  controllers.forEach((controller) => controller.hostConnected?.());
+  const send = (change: ControlChange) => {
+    dispatcher.dispatchEvent(new CustomEvent<ControlChange>('cc-message', { detail: change }));
+  };
+  return { bindings, learn, onControlChange, send };
+}
+
+describe('MidiLearnController', () => {
+  it('binds the next CC to the control that is learning', () => {
+    const { bindings, learn, onControlChange, send } = setup();
+    learn.toggleLearn('a');
+    expect(learn.label('a')).toBe('Learn');
+    send({ cc: 20, channel: 3, value: 64 });
+    expect(bindings.a).toEqual({ cc: 20, channel: 3 });
+    expect(learn.learning).toBeNull();
+    expect(onControlChange).not.toHaveBeenCalled();
+  });
+
+  it('passes CCs on while nothing is learning', () => {
+    const { onControlChange, send } = setup();
+    const change = { cc: 1, channel: 0, value: 64 };
+    send(change);
+    expect(onControlChange).toHaveBeenCalledWith(change);
+  });
+
+  it('remembers the channel of each control across omni', () => {
+    const { bindings, learn } = setup();
+    learn.toggleOmni('b');
+    learn.toggleOmni('a');
+    expect(bindings).toEqual({ a: { cc: 1, channel: 0 }, b: { cc: 2, channel: null } });
+    learn.toggleOmni('b');
+    expect(bindings.b).toEqual({ cc: 2, channel: 5 });
+  });
+});
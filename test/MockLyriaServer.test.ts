@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MockLyriaServer } from '../mock-server/MockLyriaServer';
+import type { FilteredPrompt, PlaybackState, PlaybackStateChange, Prompt } from '../types';
+import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import { LyriaBackend } from '../utils/LyriaBackend';
+import { FakeAudioContext, FakeAudioWorkletNode, FakeDecodeWorker } from './fakes';
+
+/** The mock sends a second of audio a second, so waits are in real seconds. */
+const WAIT = { timeout: 4000, interval: 20 };
+
+function prompts(...texts: string[]) {
+  return new Map<string, Prompt>(texts.map((text, i) => [`prompt-${i}`, {
+    promptId: `prompt-${i}`,
+    text,
+    weight: 1,
+    cc: i,
+    channel: null,
+    color: '#fff',
+    note: null,
+  }]));
+}
+
+describe('LiveMusicHelper against the mock server', () => {
+  let server: MockLyriaServer;
+  let helper: LiveMusicHelper;
+  let states: PlaybackState[];
+  let errors: string[];
+  let filtered: Map<string, FilteredPrompt>;
+
+  function worklet() {
+    return (helper.audioContext as unknown as FakeAudioContext).worklets[0];
+  }
+
+  /** Plays audio as it arrives until playback is under way. */
+  async function untilPlaying() {
+    await vi.waitFor(() => {
+      worklet().render(0.01);
+      expect(states.at(-1)).toBe('playing');
+    }, WAIT);
+  }
+
+  beforeEach(async () => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    vi.stubGlobal('Worker', FakeDecodeWorker);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = new MockLyriaServer();
+    await server.listen();
+    const ai = new GoogleGenAI({ apiKey: 'test', apiVersion: 'v1alpha', httpOptions: { baseUrl: server.baseUrl } });
+    // One chunk of the mock's fills the buffer, and reconnects come quickly.
+    helper = new LiveMusicHelper(new LyriaBackend(ai, 'models/lyria-realtime-exp'), {
+      reconnectBaseDelayMs: 10,
+      jitterBuffer: { initialTarget: 0.5 },
+    });
+    states = [];
+    errors = [];
+    filtered = new Map();
+    helper.addEventListener('playback-state-changed', (e) => {
+      states.push((e as CustomEvent<PlaybackStateChange>).detail.state);
+    });
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    helper.addEventListener('filtered-prompts-changed', (e) => {
+      filtered = (e as CustomEvent<Map<string, FilteredPrompt>>).detail;
+    });
+  });
+
+  afterEach(async () => {
+    helper.stop();
+    await server.close();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('plays the prompts and reports the ones the server filters', async () => {
+    server.filterPrompt('Chainsaw solo', 'Not on this server.');
+    helper.setWeightedPrompts(prompts('Deep house', 'Chainsaw solo'));
+    await helper.play();
+    await untilPlaying();
+    expect(filtered.get('Chainsaw solo')?.reason).toBe('Not on this server.');
+    expect(errors).toEqual([]);
+  });
+
+  it.each(['closeSessions', 'dropSessions'] as const)('reconnects and plays on after %s', async (fault) => {
+    helper.setWeightedPrompts(prompts('Deep house'));
+    await helper.play();
+    await untilPlaying();
+
+    server[fault]();
+    await vi.waitFor(() => expect(states).toContain('reconnecting'), WAIT);
+    await untilPlaying();
+    expect(states).toEqual(['connecting', 'buffering', 'playing', 'reconnecting', 'buffering', 'playing']);
+    expect(errors).toEqual([]);
+  });
+
+  it('buffers through a stall and plays once audio comes back', async () => {
+    helper.setWeightedPrompts(prompts('Deep house'));
+    await helper.play();
+    await untilPlaying();
+
+    server.stall(1500);
+    worklet().render(2);
+    await vi.waitFor(() => expect(states.at(-1)).toBe('buffering'), WAIT);
+    await untilPlaying();
+    expect(states).toEqual(['connecting', 'buffering', 'playing', 'buffering', 'playing']);
+    expect(errors).toEqual([]);
+  });
+
+  it('closes its session when stopped', async () => {
+    helper.setWeightedPrompts(prompts('Deep house'));
+    await helper.play();
+    await untilPlaying();
+
+    helper.stop();
+    await vi.waitFor(() => expect(server.sessions.size).toBe(0), WAIT);
+    expect(states.at(-1)).toBe('stopped');
+    expect(errors).toEqual([]);
+  });
+});
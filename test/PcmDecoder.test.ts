@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PcmDecoder } from '../utils/PcmDecoder';
+import { FakeDecodeWorker } from './fakes';
+
+function pcm(samples: number[]) {
+  return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+describe('PcmDecoder', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeDecodeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('decodes chunks in the order they were sent', async () => {
+    const decoder = new PcmDecoder(1);
+    const decoded = await Promise.all([decoder.decode(pcm([1])), decoder.decode(pcm([2, 3]))]);
+    expect(decoded.map((d) => [...d.pcm])).toEqual([[1], [2, 3]]);
+  });
+
+  it('rejects a chunk that is not valid base64', async () => {
+    await expect(new PcmDecoder(1).decode('%%%')).rejects.toThrow();
+  });
+
+  it('fails the pending decodes when the worker dies, then carries on with a new one', async () => {
+    const decoder = new PcmDecoder(1);
+    const worker = FakeDecodeWorker.instances.at(-1)!;
+    const lost = [decoder.decode(pcm([1])), decoder.decode(pcm([2]))];
+    worker.crash('out of memory');
+    for (const decode of lost) await expect(decode).rejects.toThrow('out of memory');
+    expect(worker.terminated).toBe(true);
+    expect([...(await decoder.decode(pcm([4]))).pcm]).toEqual([4]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { PlaybackRing } from '../utils/PlaybackRing';
+
+/** A mono ring holding up to 16 frames, with a 4 frame fade. */
+function ring(target = 4) {
+  return new PlaybackRing(1, 16, target, 4);
+}
+
+function ones(frames: number) {
+  return [new Float32Array(frames).fill(1)];
+}
+
+function render(playback: PlaybackRing, frames: number) {
+  const output = [new Float32Array(frames)];
+  const event = playback.render(output);
+  return { samples: [...output[0]], event };
+}
+
+describe('PlaybackRing', () => {
+  it('stays silent until the target is buffered, then fades in', () => {
+    const playback = ring(8);
+    expect(playback.receive({ type: 'push', channels: ones(6) })).toEqual({ type: 'buffered', frames: 6 });
+    expect(render(playback, 4)).toEqual({ samples: [0, 0, 0, 0], event: null });
+
+    playback.receive({ type: 'push', channels: ones(10) });
+    expect(render(playback, 6)).toEqual({ samples: [0.25, 0.5, 0.75, 1, 1, 1], event: { type: 'started' } });
+  });
+
+  it('fades out the last frames and reports when it runs dry', () => {
+    const playback = ring();
+    playback.receive({ type: 'push', channels: ones(8) });
+    expect(render(playback, 10)).toEqual({
+      samples: [0.25, 0.5, 0.75, 1, 1, 0.75, 0.5, 0.25, 0, 0],
+      event: { type: 'underrun' },
+    });
+  });
+
+  it('plays straight on when more arrives before the fade', () => {
+    const playback = ring();
+    playback.receive({ type: 'push', channels: ones(8) });
+    render(playback, 4);
+    playback.receive({ type: 'push', channels: ones(8) });
+    expect(render(playback, 8)).toEqual({ samples: [1, 1, 1, 1, 1, 1, 1, 1], event: null });
+  });
+
+  it('fades out on stop, keeping what arrives during the fade for the next start', () => {
+    const playback = ring();
+    playback.receive({ type: 'push', channels: ones(12) });
+    render(playback, 4);
+    playback.receive({ type: 'stop', fadeFrames: 2 });
+    playback.receive({ type: 'push', channels: ones(4) });
+    expect(render(playback, 3)).toEqual({ samples: [0.5, 0.25, 0], event: null });
+    expect(render(playback, 2).event).toEqual({ type: 'started' });
+  });
+
+  it('grows to fit what is pushed, keeping the order across the wrap', () => {
+    const playback = ring();
+    playback.receive({ type: 'push', channels: ones(12) });
+    render(playback, 10);
+    const ramp = [Float32Array.from({ length: 20 }, (_, i) => i + 2)];
+    expect(playback.receive({ type: 'push', channels: ramp })).toEqual({ type: 'buffered', frames: 22 });
+    expect(render(playback, 22).samples.slice(2, 18)).toEqual(Array.from({ length: 16 }, (_, i) => i + 2));
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PromptHistory } from '../utils/PromptHistory';
+import type { DeckState } from '../utils/PromptHistory';
+
+function prompts(...weights: number[]): DeckState {
+  return {
+    prompts: new Map(weights.map((weight, i) => {
+      const promptId = `prompt-${i}`;
+      return [promptId, { promptId, text: `Prompt ${i}`, weight, cc: i, channel: null, color: '#fff', note: null }];
+    })),
+    params: new Map(),
+    controls: new Map(),
+    effects: new Map(),
+  };
+}
+
+function weights(state: DeckState | null) {
+  return state && [...state.prompts.values()].map((p) => p.weight);
+}
+
+describe('PromptHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('undoes and redoes changes in order', () => {
+    const history = new PromptHistory(prompts(0, 0));
+    history.record(prompts(1, 0));
+    history.record(prompts(1, 2));
+
+    expect(weights(history.undo())).toEqual([1, 0]);
+    expect(weights(history.undo())).toEqual([0, 0]);
+    expect(history.undo()).toBeNull();
+    expect(weights(history.redo())).toEqual([1, 0]);
+    expect(weights(history.redo())).toEqual([1, 2]);
+    expect(history.redo()).toBeNull();
+  });
+
+  it('coalesces rapid changes to the same thing into one step', () => {
+    const history = new PromptHistory(prompts(0));
+    for (const weight of [0.1, 0.2, 0.3]) {
+      history.record(prompts(weight), 'weight:prompt-0');
+      vi.advanceTimersByTime(100);
+    }
+    vi.advanceTimersByTime(500);
+    history.record(prompts(0.5), 'weight:prompt-0');
+
+    expect(weights(history.undo())).toEqual([0.3]);
+    expect(weights(history.undo())).toEqual([0]);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('starts a new step when a different thing changes', () => {
+    const history = new PromptHistory(prompts(0, 0));
+    history.record(prompts(1, 0), 'weight:prompt-0');
+    history.record(prompts(1, 1), 'weight:prompt-1');
+    expect(weights(history.undo())).toEqual([1, 0]);
+  });
+
+  it('forgets the redo steps once something new is recorded', () => {
+    const history = new PromptHistory(prompts(0));
+    history.record(prompts(1));
+    history.undo();
+    history.record(prompts(2));
+    expect(history.canRedo).toBe(false);
+    expect(weights(history.undo())).toEqual([0]);
+  });
+
+  it('follows changes that are not undoable without losing redo', () => {
+    const history = new PromptHistory(prompts(0));
+    history.record(prompts(1));
+    history.undo();
+    history.follow(prompts(0.5));
+    expect(history.canUndo).toBe(false);
+    expect(weights(history.redo())).toEqual([1]);
+    expect(weights(history.undo())).toEqual([0.5]);
+  });
+
+  it('drops the oldest steps past its limit', () => {
+    const history = new PromptHistory(prompts(0), 2);
+    for (const weight of [1, 2, 3]) history.record(prompts(weight));
+    expect(weights(history.undo())).toEqual([2]);
+    expect(weights(history.undo())).toEqual([1]);
+    expect(history.undo()).toBeNull();
+  });
+
+  it('keeps its steps apart from prompts edited in place later', () => {
+    const live = prompts(0);
+    const history = new PromptHistory(live);
+    live.prompts.get('prompt-0')!.weight = 1;
+    history.record(live);
+    live.prompts.get('prompt-0')!.weight = 2;
+    history.record(live);
+    expect(weights(history.undo())).toEqual([1]);
+  });
+
+  it('puts back the CCs a learn moved along with the prompts', () => {
+    const before = prompts(0);
+    before.params.set('temperature', { cc: 5, channel: null });
+    const history = new PromptHistory(before);
+    // Learning CC 5 for the prompt moved the temperature off it.
+    const after = prompts(0);
+    after.prompts.get('prompt-0')!.cc = 5;
+    after.params.set('temperature', { cc: 6, channel: null });
+    history.record(after);
+
+    const undone = history.undo();
+    expect(undone?.prompts.get('prompt-0')?.cc).toBe(0);
+    expect(undone?.params.get('temperature')).toEqual({ cc: 5, channel: null });
+  });
+
+  it('skips changes that leave the prompts as they were', () => {
+    const history = new PromptHistory(prompts(1));
+    history.record(prompts(1));
+    expect(history.canUndo).toBe(false);
+  });
+});
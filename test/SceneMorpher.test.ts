@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { barsToMs, SceneMorpher } from '../utils/SceneMorpher';
+
+function track(morpher: SceneMorpher) {
+  const progress: number[] = [];
+  const ended: boolean[] = [];
+  morpher.addEventListener('morph-progress', (e) => {
+    progress.push((e as CustomEvent<Map<string, number>>).detail.get('prompt-0')!);
+  });
+  morpher.addEventListener('morph-ended', (e) => {
+    ended.push((e as CustomEvent<{ completed: boolean }>).detail.completed);
+  });
+  return { progress, ended };
+}
+
+describe('SceneMorpher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('eases the weights to the scene on the clock', () => {
+    const morpher = new SceneMorpher();
+    const { progress, ended } = track(morpher);
+    morpher.morph(new Map([['prompt-0', 0]]), new Map([['prompt-0', 1]]), 1000);
+    vi.advanceTimersByTime(500);
+    expect(progress.at(-1)).toBeCloseTo(0.5);
+    expect(morpher.morphing).toBe(true);
+
+    vi.advanceTimersByTime(500);
+    expect(progress.at(-1)).toBe(1);
+    expect(ended).toEqual([true]);
+    expect(morpher.morphing).toBe(false);
+  });
+
+  it('reports a cancelled morph as not completed', () => {
+    const morpher = new SceneMorpher();
+    const { ended } = track(morpher);
+    morpher.morph(new Map([['prompt-0', 0]]), new Map([['prompt-0', 1]]), 1000);
+    morpher.cancel();
+    vi.advanceTimersByTime(1000);
+    expect(ended).toEqual([false]);
+  });
+});
+
+describe('barsToMs', () => {
+  it('converts bars of 4/4 at a tempo', () => {
+    expect(barsToMs(2, 120)).toBe(4000);
+  });
+});
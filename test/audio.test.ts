@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { decodePcm, encode } from '../utils/audio';
+
+function pcm(samples: number[]) {
+  return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+describe('decodePcm', () => {
+  it('scales 16-bit samples to the -1 to 1 range', () => {
+    const { channels } = decodePcm(pcm([0, 16384, -16384, -32768, 32767]), 1);
+    expect([...channels[0]]).toEqual([0, 0.5, -0.5, -1, 32767 / 32768]);
+  });
+
+  it('splits interleaved stereo into left and right channels', () => {
+    const { channels } = decodePcm(pcm([1, -1, 2, -2, 3, -3].map((s) => s * 1024)), 2);
+    expect(channels).toHaveLength(2);
+    expect([...channels[0]]).toEqual([1, 2, 3].map((s) => s / 32));
+    expect([...channels[1]]).toEqual([-1, -2, -3].map((s) => s / 32));
+  });
+
+  it('splits any number of channels by their position in each frame', () => {
+    const { channels } = decodePcm(pcm([10, 20, 30, 11, 21, 31]), 3);
+    for (let c = 0; c < 3; c++) {
+      expect([...channels[c]].map((s) => Math.round(s * 32768))).toEqual([10 * (c + 1), 10 * (c + 1) + 1]);
+    }
+  });
+
+  it('decodes base64 and keeps the interleaved samples', () => {
+    const samples = [100, -100, 200, -200];
+    const decoded = decodePcm(encode(pcm(samples)), 2);
+    expect([...decoded.pcm]).toEqual(samples);
+    expect([...decoded.channels[1]].map((s) => s * 32768)).toEqual([-100, -200]);
+  });
+
+  it('reads bytes that start at an odd offset', () => {
+    const bytes = new Uint8Array(5);
+    bytes.set(pcm([300, -300]), 1);
+    expect([...decodePcm(bytes.subarray(1), 2).pcm]).toEqual([300, -300]);
+  });
+
+  it('rejects zero channels', () => {
+    expect(() => decodePcm(pcm([1, 2, 3, 4]), 0)).toThrow(/0 channels/);
+  });
+});
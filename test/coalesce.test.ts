@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { coalesce } from '../utils/coalesce';
+
+/** A send whose calls stay in flight until the test resolves them. */
+function controlledSend() {
+  const resolvers: (() => void)[] = [];
+  const send = vi.fn((_value: number) => new Promise<void>((resolve) => resolvers.push(resolve)));
+  const finish = async () => {
+    resolvers.shift()?.();
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { send, finish };
+}
+
+describe('coalesce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the first value right away', () => {
+    const send = vi.fn(async () => {});
+    coalesce(send, 100)(1);
+    expect(send).toHaveBeenCalledWith(1);
+  });
+
+  it('delivers only the latest of a burst after the interval', async () => {
+    const send = vi.fn(async (_value: number) => {});
+    const sender = coalesce(send, 100);
+    for (let i = 1; i <= 5; i++) sender(i);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(send.mock.calls).toEqual([[1]]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send.mock.calls).toEqual([[1], [5]]);
+  });
+
+  it('resolves once a newer value has been sent', async () => {
+    const send = vi.fn(async (_value: number) => {});
+    const sender = coalesce(send, 100);
+    sender(1);
+    let done = false;
+    sender(2).then(() => { done = true; });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(done).toBe(true);
+  });
+
+  it('skips values equal to the last one sent', async () => {
+    const send = vi.fn(async (_value: number[]) => {});
+    const sender = coalesce(send, 100, (a, b) => a.join() === b.join());
+    sender([1, 2]);
+    await vi.advanceTimersByTimeAsync(200);
+    await sender([1, 2]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a burst that ends where it started', async () => {
+    const send = vi.fn(async (_value: number) => {});
+    const sender = coalesce(send, 100);
+    sender(1);
+    sender(2);
+    sender(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send.mock.calls).toEqual([[1]]);
+  });
+
+  it('never has two sends in flight', async () => {
+    const { send, finish } = controlledSend();
+    const sender = coalesce(send, 0);
+    sender(1);
+    sender(2);
+    sender(3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send.mock.calls).toEqual([[1]]);
+    await finish();
+    expect(send.mock.calls).toEqual([[1], [3]]);
+    await finish();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends again after a reset even if unchanged', async () => {
+    const send = vi.fn(async (_value: number) => {});
+    const sender = coalesce(send, 100);
+    await sender(1);
+    sender.reset();
+    sender(1);
+    expect(send.mock.calls).toEqual([[1], [1]]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { vi } from 'vitest';
+
+import type { GenerationConfig } from '../types';
+import { decodePcm } from '../utils/audio';
+import type { MusicBackend } from '../utils/MusicBackend';
+import { PlaybackRing } from '../utils/PlaybackRing';
+import type { PlayerEvent, PlayerMessage } from '../utils/PlaybackRing';
+
+/** An AudioBuffer backed by plain arrays, validated like the real one. */
+export class FakeAudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  private readonly channels: Float32Array[];
+
+  constructor(numberOfChannels: number, length: number, sampleRate: number) {
+    // Matches the NotSupportedError browsers throw from createBuffer.
+    if (numberOfChannels < 1 || !Number.isInteger(length) || length < 1) {
+      throw new DOMException(
+        `Invalid buffer of ${numberOfChannels} channels and length ${length}.`,
+        'NotSupportedError',
+      );
+    }
+    this.numberOfChannels = numberOfChannels;
+    this.length = length;
+    this.sampleRate = sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number) {
+    this.channels[channel].set(source.subarray(0, this.length));
+  }
+}
+
+class FakeAudioParam {
+  value = 1;
+  setValueAtTime = vi.fn((value: number) => {
+    this.value = value;
+  });
+  linearRampToValueAtTime = vi.fn((value: number) => {
+    this.value = value;
+  });
+  setTargetAtTime = vi.fn((value: number) => {
+    this.value = value;
+  });
+  cancelScheduledValues = vi.fn();
+}
+
+class FakeAudioNode {
+  /** Returns the destination so connections chain, like the real one. */
+  connect = vi.fn(<T>(destination: T) => destination);
+  disconnect = vi.fn();
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  gain = new FakeAudioParam();
+}
+
+export class FakeBiquadFilterNode extends FakeAudioNode {
+  type = 'lowpass';
+  frequency = new FakeAudioParam();
+  Q = new FakeAudioParam();
+  gain = new FakeAudioParam();
+}
+
+export class FakeDelayNode extends FakeAudioNode {
+  delayTime = new FakeAudioParam();
+}
+
+export class FakeConvolverNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+}
+
+/**
+ * Stands in for the `pcm-player` worklet, running its ring buffer on the
+ * main thread. Audio only plays when a test calls `render`.
+ */
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  readonly messages: PlayerMessage[] = [];
+  readonly port = {
+    onmessage: null as ((e: { data: PlayerEvent }) => void) | null,
+    postMessage: (message: PlayerMessage) => {
+      this.messages.push(message);
+      queueMicrotask(() => this.emit(this.ring.receive(message)));
+    },
+  };
+  private readonly ring: PlaybackRing;
+  private readonly sampleRate: number;
+
+  constructor(context: FakeAudioContext, _name: string, options: AudioWorkletNodeOptions) {
+    super();
+    const { numChannels, capacity, target, fadeFrames } = options.processorOptions;
+    this.ring = new PlaybackRing(numChannels, capacity, target, fadeFrames);
+    this.sampleRate = context.sampleRate;
+    context.worklets.push(this);
+  }
+
+  /** Plays `seconds` of audio, block by block. */
+  render(seconds: number) {
+    const output = [new Float32Array(128), new Float32Array(128)];
+    for (let frame = 0; frame < seconds * this.sampleRate; frame += 128) {
+      const event = this.ring.render(output);
+      queueMicrotask(() => this.emit(event));
+    }
+  }
+
+  private emit(event: PlayerEvent | null) {
+    if (event) this.port.onmessage?.({ data: event });
+  }
+}
+
+/** Stands in for the decode worker, decoding on the main thread. */
+export class FakeDecodeWorker {
+  static readonly instances: FakeDecodeWorker[] = [];
+
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: { message: string }) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeDecodeWorker.instances.push(this);
+  }
+
+  /** Fails like a worker whose script threw, dropping what it was given. */
+  crash(message: string) {
+    this.onerror?.({ message });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  postMessage(message: { data: string | Uint8Array; numChannels: number }) {
+    queueMicrotask(() => {
+      if (this.terminated) return;
+      try {
+        this.onmessage?.({ data: decodePcm(message.data, message.numChannels) });
+      } catch (e: any) {
+        this.onmessage?.({ data: { error: e.message } });
+      }
+    });
+  }
+}
+
+/** An AudioContext whose clock only moves when a test sets `currentTime`. */
+export class FakeAudioContext {
+  readonly sampleRate: number;
+  currentTime = 0;
+  readonly destination = new FakeAudioNode();
+  readonly audioWorklet = { addModule: vi.fn(async (_url: string) => {}) };
+  readonly worklets: FakeAudioWorkletNode[] = [];
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createGain() {
+    return new FakeGainNode();
+  }
+
+  createBiquadFilter() {
+    return new FakeBiquadFilterNode();
+  }
+
+  createDelay() {
+    return new FakeDelayNode();
+  }
+
+  createConvolver() {
+    return new FakeConvolverNode();
+  }
+
+  resume = vi.fn(async () => {});
+}
+
+/** A backend that records what it's asked to do and never makes a sound. */
+export class FakeBackend extends EventTarget implements MusicBackend {
+  connect = vi.fn(async () => {});
+  disconnect = vi.fn();
+  setWeightedPrompts = vi.fn(async (_prompts: { text?: string; weight?: number }[]) => {});
+  setConfig = vi.fn(async (_config: GenerationConfig) => {});
+  resetContext = vi.fn();
+  play = vi.fn();
+  pause = vi.fn();
+  stop = vi.fn();
+
+  /** Sends one chunk of silence, `frames` long, as 16-bit stereo PCM. */
+  sendChunk(frames = 4800) {
+    this.dispatchEvent(new CustomEvent('audio-chunk', { detail: new Uint8Array(frames * 2 * 2) }));
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import {
+  defaultKeyBindings,
+  findKeyCommand,
+  formatKey,
+  nudgeWeight,
+  parseSlotCommand,
+  rebindKey,
+} from '../utils/keyBindings';
+
+describe('key bindings', () => {
+  it('selects slots from the number row and toggles them from the row below', () => {
+    const bindings = defaultKeyBindings();
+    expect(findKeyCommand(bindings, 'Digit1')).toBe('select-0');
+    expect(findKeyCommand(bindings, 'Digit0')).toBe('select-9');
+    expect(findKeyCommand(bindings, 'KeyP')).toBe('toggle-9');
+    expect(findKeyCommand(bindings, 'Space')).toBe('play-pause');
+    expect(findKeyCommand(bindings, 'KeyZ')).toBeNull();
+  });
+
+  it('parses slot commands and leaves deck commands alone', () => {
+    expect(parseSlotCommand('toggle-12')).toEqual({ action: 'toggle', slot: 12 });
+    expect(parseSlotCommand('nudge-up')).toBeNull();
+  });
+
+  it('takes a rebound key away from the command that had it', () => {
+    const bindings = rebindKey(defaultKeyBindings(), 'play-pause', 'KeyQ');
+    expect(findKeyCommand(bindings, 'KeyQ')).toBe('play-pause');
+    expect(bindings.has('toggle-0')).toBe(false);
+    expect(findKeyCommand(bindings, 'Space')).toBeNull();
+  });
+
+  it('unbinds a command given an empty key', () => {
+    const bindings = rebindKey(defaultKeyBindings(), 'show-keys', '');
+    expect(bindings.has('show-keys')).toBe(false);
+    expect(defaultKeyBindings().get('show-keys')).toBe('Slash');
+  });
+
+  it('formats key codes as the labels printed on the keys', () => {
+    expect(['KeyQ', 'Digit7', 'ArrowUp', 'Slash', 'Numpad4', 'Space'].map(formatKey))
+      .toEqual(['Q', '7', '↑', '/', 'Num 4', 'Space']);
+  });
+
+  it('nudges weights in coarse or fine steps, within range', () => {
+    expect(nudgeWeight(1, 1)).toBe(1.1);
+    expect(nudgeWeight(0.3, -1, true)).toBe(0.29);
+    expect(nudgeWeight(0.05, -1)).toBe(0);
+    expect(nudgeWeight(1.95, 1)).toBe(2);
+  });
+});
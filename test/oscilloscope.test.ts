@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { couple, findTrigger, formatTimeDiv, formatVoltsDiv } from '../utils/oscilloscope';
+
+describe('couple', () => {
+  it('centers the samples on their average with AC coupling', () => {
+    expect([...couple(new Float32Array([0.5, 0.7, 0.3]), 'ac')].map((s) => Number(s.toFixed(2))))
+      .toEqual([0, 0.2, -0.2]);
+  });
+
+  it('leaves DC coupled samples alone', () => {
+    expect([...couple(new Float32Array([0.5, 0.7]), 'dc')]).toEqual([0.5, 0.699999988079071]);
+  });
+
+  it('flattens the trace when grounded', () => {
+    expect([...couple(new Float32Array([0.5, -0.7]), 'gnd')]).toEqual([0, 0]);
+  });
+});
+
+describe('findTrigger', () => {
+  it('starts the sweep on the first rising zero crossing', () => {
+    const samples = new Float32Array([0.2, -0.1, -0.3, 0.1, 0.4, -0.2, 0.3, 0.1]);
+    expect(findTrigger(samples, 4)).toBe(3);
+  });
+
+  it('skips crossings too late to fit the sweep', () => {
+    const samples = new Float32Array([0.2, 0.1, 0.1, -0.1, 0.3, 0.4]);
+    expect(findTrigger(samples, 4)).toBe(2);
+  });
+
+  it('falls back to the latest full sweep without a crossing', () => {
+    expect(findTrigger(new Float32Array(10), 4)).toBe(6);
+  });
+});
+
+it('labels the knob settings with their units', () => {
+  expect(formatTimeDiv(0.2)).toBe('200 µs');
+  expect(formatTimeDiv(5)).toBe('5 ms');
+  expect(formatVoltsDiv(0.05)).toBe('50 mV');
+  expect(formatVoltsDiv(1)).toBe('1 V');
+});
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import type { MidiBinding, Prompt } from '../types';
+import { PromptIdCounter, releaseCc } from '../utils/promptSlots';
+
+function prompts(...ids: string[]): Map<string, Prompt> {
+  return new Map(ids.map((promptId, i) => [
+    promptId,
+    { promptId, text: `Prompt ${i}`, weight: 0, cc: i, channel: null, color: '#fff', note: null },
+  ]));
+}
+
+describe('PromptIdCounter', () => {
+  it('does not hand out the id of the highest prompt again once it is deleted', () => {
+    const ids = new PromptIdCounter();
+    ids.reserve(prompts('prompt-0', 'prompt-1'));
+    expect(ids.take()).toBe('prompt-2');
+    // prompt-2 is deleted, leaving prompt-0 and prompt-1 on the deck.
+    ids.reserve(prompts('prompt-0', 'prompt-1'));
+    expect(ids.take()).toBe('prompt-3');
+  });
+
+  it('moves past the ids of loaded prompts, but never back', () => {
+    const ids = new PromptIdCounter();
+    ids.reserve(prompts('prompt-0', 'prompt-4'));
+    ids.reserve(prompts('prompt-0'));
+    expect(ids.take()).toBe('prompt-5');
+  });
+});
+
+describe('releaseCc', () => {
+  it('moves other bindings on the learned CC to a free one', () => {
+    const learned: MidiBinding = { cc: 1, channel: 3 };
+    const omni: MidiBinding = { cc: 1, channel: null };
+    const other: MidiBinding = { cc: 2, channel: null };
+    expect(releaseCc(learned, [learned, omni, other])).toBe(true);
+    expect(learned.cc).toBe(1);
+    expect(omni.cc).toBe(3);
+    expect(other.cc).toBe(2);
+  });
+
+  it('leaves the same CC on another channel alone', () => {
+    const learned: MidiBinding = { cc: 1, channel: 3 };
+    const elsewhere: MidiBinding = { cc: 1, channel: 4 };
+    expect(releaseCc(learned, [learned, elsewhere])).toBe(false);
+    expect(elsewhere.cc).toBe(1);
+  });
+});
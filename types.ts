@@ -2,12 +2,53 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-export interface Prompt {
+import type { LiveMusicGenerationConfig } from '@google/genai';
+
+/** A learned CC. A null channel matches the CC on any channel (omni). */
+export interface MidiBinding {
+  cc: number;
+  channel: number | null;
+}
+
+/**
+ * How a learned note drives a prompt: `toggle` flips it on and off, `gate`
+ * keeps it on only while the note is held, and `velocity` sets its weight
+ * from how hard the note is struck.
+ */
+export type NoteMode = 'toggle' | 'gate' | 'velocity';
+
+/** A learned note. A null channel matches the note on any channel (omni). */
+export interface NoteBinding {
+  note: number;
+  channel: number | null;
+  mode: NoteMode;
+}
+
+export interface Prompt extends MidiBinding {
   readonly promptId: string;
   text: string;
   weight: number;
-  cc: number;
   color: string;
+  note: NoteBinding | null;
+}
+
+/** A prompt text the server refused to use. */
+export interface FilteredPrompt {
+  text: string;
+  /** Why the server refused it, if it said. */
+  reason: string | null;
+  /** When it was refused, in milliseconds since the epoch. */
+  time: number;
+}
+
+/** The parts of a prompt that are saved with a preset. */
+export type PresetPrompt = Pick<Prompt, 'text' | 'weight' | 'cc' | 'channel' | 'color'>;
+
+export interface Preset {
+  name: string;
+  prompts: PresetPrompt[];
+  /** Presets saved before the effects chain have none, and leave it alone. */
+  effects?: EffectSettings;
 }
 
 export interface ControlChange {
@@ -16,4 +57,160 @@ export interface ControlChange {
   value: number;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+/** A note-on or note-off. Note-offs are normalized to a velocity of 0. */
+export interface NoteMessage {
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+/** The CCs learned for one MIDI controller, keyed by what they control. */
+export interface MidiProfile {
+  deviceName: string;
+  prompts: Record<string, MidiBinding>;
+  params: Partial<Record<GenerationParam, MidiBinding>>;
+  notes: Record<string, NoteBinding>;
+  controls: Partial<Record<DeckControl, MidiBinding>>;
+  effects: Partial<Record<EffectParam, MidiBinding>>;
+}
+
+/** Deck-wide controls that can be bound to a CC. */
+export type DeckControl = 'crossfader' | 'undo' | 'redo';
+
+/**
+ * What a computer key can do. Slot commands act on the prompt at that
+ * position in the grid, counting from 0.
+ */
+export type KeyCommand =
+  | 'play-pause'
+  | 'nudge-up'
+  | 'nudge-down'
+  | 'select-previous'
+  | 'select-next'
+  | 'show-keys'
+  | `select-${number}`
+  | `toggle-${number}`;
+
+/**
+ * How the crossfader blends scenes: `linear` trades weight evenly,
+ * `constant-power` keeps the blend full through the middle, and `cut`
+ * brings each side in fully right at its edge of the fader.
+ */
+export type CrossfadeCurve = 'linear' | 'constant-power' | 'cut';
+
+export type PlaybackState =
+  | 'stopped'
+  | 'connecting'
+  | 'buffering'
+  | 'playing'
+  | 'paused'
+  | 'reconnecting'
+  | 'error';
+
+/** What made playback change state. */
+export type PlaybackReason =
+  | 'play'
+  | 'pause'
+  | 'stop'
+  | 'connected'
+  | 'buffered'
+  | 'underrun'
+  | 'connection-lost'
+  | 'reconnected'
+  | 'connect-failed'
+  | 'reconnect-failed'
+  | 'output-failed'
+  | 'no-active-prompts'
+  | 'request-failed';
+
+/** The detail of a `playback-state-changed` event. */
+export interface PlaybackStateChange {
+  state: PlaybackState;
+  previous: PlaybackState;
+  reason: PlaybackReason;
+}
+
+/** How the playback buffer is holding up, for the UI to show. */
+export interface BufferStats {
+  /** Seconds of audio scheduled ahead of the playhead. */
+  depth: number;
+  /** Seconds the buffer fills to before playing. */
+  target: number;
+  underruns: number;
+  /** How irregularly chunks arrive, in seconds. */
+  jitter: number;
+}
+
+export type RecordingFormat = 'wav' | 'flac' | 'opus';
+
+/** The effects on the master output, in the order the signal runs through them. */
+export type EffectId = 'filter' | 'eq' | 'delay' | 'reverb';
+
+/** The effect parameters that can be set from the deck or a CC. */
+export type EffectParam =
+  | 'filterCutoff'
+  | 'filterResonance'
+  | 'filterMix'
+  | 'eqLow'
+  | 'eqMid'
+  | 'eqHigh'
+  | 'eqMix'
+  | 'delayDivision'
+  | 'delayFeedback'
+  | 'delayMix'
+  | 'reverbSize'
+  | 'reverbMix';
+
+export interface EffectSettings {
+  bypassed: Record<EffectId, boolean>;
+  params: Record<EffectParam, number>;
+}
+
+/** Where a tap listens: the stream as generated, or after the effects. */
+export type TapPosition = 'pre' | 'post';
+
+/** Nodes that listen to the output and can sit before or after the effects. */
+export type Tap = 'recorder' | 'analyser';
+
+/**
+ * How the oscilloscope's input is coupled: `ac` centers the trace on its
+ * average, `dc` shows it as is, and `gnd` grounds it to a flat line.
+ */
+export type ScopeCoupling = 'ac' | 'dc' | 'gnd';
+
+/** A frequency band a level can follow, or the whole spectrum. */
+export type LevelBand = 'full' | 'bass' | 'mid' | 'high';
+
+/** Levels of the output, each from 0 to 1. */
+export interface AudioLevels {
+  bands: Record<LevelBand, number>;
+  /** Per channel, left then right. */
+  rms: [number, number];
+  peak: [number, number];
+}
+
+/** An onset in the low end, likely a kick or other beat. */
+export interface Beat {
+  /** When it was heard, in seconds on the audio clock. */
+  time: number;
+  /** How far it stood out from the recent average. */
+  strength: number;
+  /** The tempo the recent beats suggest, once there are enough of them. */
+  bpm: number | null;
+}
+
+/** The oscilloscope plots the waveform over time, or left against right. */
+export type ScopeMode = 'yt' | 'xy';
+
+/** The music generation parameters that can be controlled from the deck. */
+export type GenerationParam =
+  | 'bpm'
+  | 'density'
+  | 'brightness'
+  | 'scale'
+  | 'guidance'
+  | 'temperature'
+  | 'seed';
+
+/** A generation config. Params left undefined are chosen by the model. */
+export type GenerationConfig = Pick<LiveMusicGenerationConfig, GenerationParam>;
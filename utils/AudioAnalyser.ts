@@ -2,16 +2,53 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-/** Simple class for getting the current audio level. */
+import type { AudioLevels, Beat, LevelBand } from '../types';
+import { BeatDetector } from './BeatDetector';
+import { SCOPE_FFT_SIZE } from './oscilloscope';
+
+/** The edges of each band, in Hz. */
+const BANDS: Record<Exclude<LevelBand, 'full'>, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  high: [4000, 16000],
+};
+
+/** How many of the latest samples the RMS and peak are measured over. */
+const LEVEL_WINDOW = 2048;
+
+/**
+ * Simple class for getting the current audio level. Each frame it also
+ * measures the bands and channels, and listens for beats in the bass. The
+ * recent waveform of each channel is kept in `left` and `right` for the
+ * oscilloscope.
+ */
 export class AudioAnalyser extends EventTarget {
   readonly node: AnalyserNode;
+  readonly left: AnalyserNode;
+  readonly right: AnalyserNode;
   private readonly freqData: Uint8Array;
+  private readonly timeData: Float32Array;
+  private readonly bandBins: Record<Exclude<LevelBand, 'full'>, [number, number]>;
+  private readonly beatDetector = new BeatDetector();
   private rafId: number | null = null;
   constructor(context: AudioContext) {
     super();
     this.node = context.createAnalyser();
     this.node.smoothingTimeConstant = 0;
     this.freqData = new Uint8Array(this.node.frequencyBinCount);
+    const binWidth = context.sampleRate / this.node.fftSize;
+    const toBins = ([low, high]: [number, number]): [number, number] =>
+      [Math.max(1, Math.floor(low / binWidth)), Math.min(this.freqData.length, Math.ceil(high / binWidth))];
+    this.bandBins = { bass: toBins(BANDS.bass), mid: toBins(BANDS.mid), high: toBins(BANDS.high) };
+    // An analyser passes its input through, so the channels can be split off it.
+    const splitter = context.createChannelSplitter(2);
+    this.left = context.createAnalyser();
+    this.right = context.createAnalyser();
+    for (const channel of [this.left, this.right]) channel.fftSize = SCOPE_FFT_SIZE;
+    this.timeData = new Float32Array(SCOPE_FFT_SIZE);
+    this.node.connect(splitter);
+    splitter.connect(this.left, 0);
+    splitter.connect(this.right, 1);
     this.loop = this.loop.bind(this);
   }
   getCurrentLevel() {
@@ -19,13 +56,54 @@ export class AudioAnalyser extends EventTarget {
     const avg = this.freqData.reduce((a, b) => a + b, 0) / this.freqData.length;
     return avg / 0xff;
   }
+  /** Averages the bins of a band read by the last `getCurrentLevel`. */
+  private getBandLevel([from, to]: [number, number]) {
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += this.freqData[i];
+    return sum / Math.max(1, to - from) / 0xff;
+  }
+  /** Measures the RMS and peak of the latest samples of a channel. */
+  private getChannelLevels(channel: AnalyserNode): [number, number] {
+    channel.getFloatTimeDomainData(this.timeData);
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = this.timeData.length - LEVEL_WINDOW; i < this.timeData.length; i++) {
+      const sample = this.timeData[i];
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    return [Math.sqrt(sumSquares / LEVEL_WINDOW), Math.min(1, peak)];
+  }
+  getLevels(): AudioLevels {
+    const full = this.getCurrentLevel();
+    const [leftRms, leftPeak] = this.getChannelLevels(this.left);
+    const [rightRms, rightPeak] = this.getChannelLevels(this.right);
+    return {
+      bands: {
+        full,
+        bass: this.getBandLevel(this.bandBins.bass),
+        mid: this.getBandLevel(this.bandBins.mid),
+        high: this.getBandLevel(this.bandBins.high),
+      },
+      rms: [leftRms, rightRms],
+      peak: [leftPeak, rightPeak],
+    };
+  }
   loop() {
     this.rafId = requestAnimationFrame(this.loop);
-    const level = this.getCurrentLevel();
-    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: level }));
+    const levels = this.getLevels();
+    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: levels.bands.full }));
+    this.dispatchEvent(new CustomEvent<AudioLevels>('audio-levels-changed', { detail: levels }));
+    const time = this.node.context.currentTime;
+    const strength = this.beatDetector.process(levels.bands.bass, time);
+    if (strength > 0) {
+      this.dispatchEvent(new CustomEvent<Beat>('beat', { detail: { time, strength, bpm: this.beatDetector.bpm } }));
+    }
   }
   start = this.loop;
   stop() {
     if (this.rafId) cancelAnimationFrame(this.rafId);
+    // The music may come back at another tempo.
+    this.beatDetector.reset();
   }
 }
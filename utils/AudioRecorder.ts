@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { RecordingFormat } from '../types';
+import { encodeWav, float32ToInterleavedInt16 } from './audio';
+
+/** Length of the fade applied on each side of a break in the stream. */
+const SPLICE_FADE_SECONDS = 0.01;
+
+/** How long the output takes to fade out when playback pauses. */
+const PAUSE_FADE_SECONDS = 0.1;
+
+/** How many frames the capture worklet gathers before posting them. */
+const CAPTURE_BATCH_FRAMES = 4800;
+
+/** The capture worklet's reply once it has posted the frames it held. */
+const CAPTURE_FLUSHED = 'flushed';
+
+/** How long to wait for that reply, in case the worklet never sends it. */
+const FLUSH_TIMEOUT_MS = 500;
+
+/**
+ * Copies whatever reaches the capture node back to the main thread in
+ * batches, one Float32Array per channel. Any message asks it to post the
+ * partial batch it's holding, after which it replies `flushed`.
+ */
+const CAPTURE_PROCESSOR = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = [];
+    this.frames = 0;
+    this.port.onmessage = () => {
+      this.post();
+      this.port.postMessage('${CAPTURE_FLUSHED}');
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input.length === 0) return true;
+    this.batch.push(input.map((channel) => channel.slice()));
+    this.frames += input[0].length;
+    if (this.frames >= ${CAPTURE_BATCH_FRAMES}) this.post();
+    return true;
+  }
+
+  post() {
+    if (this.frames === 0) return;
+    const channels = this.batch[0].map((_, c) => {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      for (const block of this.batch) {
+        data.set(block[c] ?? block[0], offset);
+        offset += block[0].length;
+      }
+      return data;
+    });
+    this.port.postMessage(channels, channels.map((data) => data.buffer));
+    this.batch = [];
+    this.frames = 0;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+let captureModuleUrl: string | null = null;
+
+const MEDIA_RECORDER_TYPES: Record<Exclude<RecordingFormat, 'wav'>, string[]> = {
+  flac: ['audio/flac', 'audio/webm;codecs=flac', 'audio/ogg;codecs=flac'],
+  opus: ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus'],
+};
+
+/**
+ * Records the live output.
+ *
+ * WAV recordings are assembled from the chunks handed to `append`,
+ * so they hold exactly what the model generated, with nothing lost or
+ * inserted around a pause. With `captureFromNode` set, e.g. to record the
+ * effects, they're captured from `node` instead while the deck plays.
+ * Other formats are encoded by a MediaRecorder listening to `node`, which is
+ * paused whenever the deck isn't playing.
+ */
+export class AudioRecorder extends EventTarget {
+  /** The input to connect the output to. */
+  readonly node: GainNode;
+  /** Whether WAV recordings take what reaches `node` rather than the chunks, from the next start. */
+  captureFromNode = false;
+
+  private readonly context: AudioContext;
+  private readonly destination: MediaStreamAudioDestinationNode;
+  private readonly sampleRate: number;
+  private readonly numChannels: number;
+
+  private active = false;
+  private format: RecordingFormat = 'wav';
+  private chunks: Int16Array[] = [];
+  private spliceNext = false;
+  private mediaRecorder: MediaRecorder | null = null;
+  private mimeType = 'audio/wav';
+  private mediaChunks: Blob[] = [];
+  private pauseTimeout: ReturnType<typeof setTimeout> | null = null;
+  private capture: AudioWorkletNode | null = null;
+  /** Resolves the wait for the capture worklet to post its last frames. */
+  private captureFlushed: (() => void) | null = null;
+  private capturing = false;
+  private live = false;
+
+  constructor(context: AudioContext, numChannels = 2) {
+    super();
+    this.context = context;
+    this.node = context.createGain();
+    this.destination = context.createMediaStreamDestination();
+    this.node.connect(this.destination);
+    this.sampleRate = context.sampleRate;
+    this.numChannels = numChannels;
+  }
+
+  /** The formats this browser can record, WAV always being first. */
+  static get supportedFormats(): RecordingFormat[] {
+    const formats: RecordingFormat[] = ['wav'];
+    for (const format of ['flac', 'opus'] as const) {
+      if (AudioRecorder.getMimeType(format)) formats.push(format);
+    }
+    return formats;
+  }
+
+  private static getMimeType(format: Exclude<RecordingFormat, 'wav'>) {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return MEDIA_RECORDER_TYPES[format].find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+  }
+
+  get recording() {
+    return this.active;
+  }
+
+  start(format: RecordingFormat = 'wav') {
+    if (this.recording) return;
+    this.format = format;
+    this.chunks = [];
+    this.spliceNext = false;
+    this.mimeType = 'audio/wav';
+    if (format !== 'wav') {
+      const mimeType = AudioRecorder.getMimeType(format);
+      if (!mimeType) throw new Error(`Recording to ${format.toUpperCase()} isn't supported in this browser.`);
+      this.mimeType = mimeType;
+      this.mediaChunks = [];
+      this.mediaRecorder = new MediaRecorder(this.destination.stream, { mimeType });
+      this.mediaRecorder.ondataavailable = (e) => this.mediaChunks.push(e.data);
+      this.mediaRecorder.start(1000);
+    }
+    this.capturing = format === 'wav' && this.captureFromNode;
+    if (this.capturing) this.startCapture();
+    this.active = true;
+    this.dispatchEvent(new CustomEvent('recording-changed', { detail: true }));
+  }
+
+  private async startCapture() {
+    try {
+      if (!captureModuleUrl) {
+        captureModuleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'text/javascript' }));
+      }
+      await this.context.audioWorklet.addModule(captureModuleUrl);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: `Couldn't capture the effects: ${e.message}` }));
+      return;
+    }
+    // Stopped while the module loaded.
+    if (!this.active) return;
+    const capture = new AudioWorkletNode(this.context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: this.numChannels,
+      channelCountMode: 'explicit',
+    });
+    capture.port.onmessage = (e: MessageEvent<Float32Array[] | typeof CAPTURE_FLUSHED>) => {
+      if (e.data === CAPTURE_FLUSHED) {
+        this.captureFlushed?.();
+      } else if (this.live) {
+        this.push(float32ToInterleavedInt16(e.data));
+      }
+    };
+    this.node.connect(capture);
+    this.capture = capture;
+  }
+
+  /** Disconnects the worklet, then takes in the frames it was still holding. */
+  private async stopCapture() {
+    const capture = this.capture;
+    if (!capture) return;
+    this.capture = null;
+    this.node.disconnect(capture);
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      this.captureFlushed = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      capture.port.postMessage('flush');
+    });
+    this.captureFlushed = null;
+    capture.port.close();
+  }
+
+  /** Adds a chunk of the stream, as 16-bit interleaved PCM, to a WAV recording. */
+  append(chunk: Int16Array) {
+    if (!this.active || this.format !== 'wav' || this.capturing) return;
+    this.push(chunk);
+  }
+
+  private push(chunk: Int16Array) {
+    if (this.spliceNext && this.chunks.length > 0) {
+      this.fade(this.chunks[this.chunks.length - 1], 'out');
+      this.fade(chunk, 'in');
+    }
+    this.spliceNext = false;
+    this.chunks.push(chunk);
+  }
+
+  /**
+   * Marks a break in the stream, e.g. after the session is stopped, so the
+   * next chunk is spliced on with a short fade instead of a click.
+   */
+  markDiscontinuity() {
+    this.spliceNext = true;
+  }
+
+  /** Pauses or resumes a recording from `node` along with playback. */
+  setLive(live: boolean) {
+    if (this.pauseTimeout !== null) {
+      clearTimeout(this.pauseTimeout);
+      this.pauseTimeout = null;
+    }
+    const recorder = this.mediaRecorder;
+    if (live) {
+      this.live = true;
+      if (recorder?.state === 'paused') recorder.resume();
+    } else if (this.live) {
+      // Let the pause fade-out reach the file before cutting.
+      this.pauseTimeout = setTimeout(() => {
+        this.pauseTimeout = null;
+        this.live = false;
+        if (recorder && recorder === this.mediaRecorder && recorder.state === 'recording') recorder.pause();
+      }, PAUSE_FADE_SECONDS * 1000);
+    }
+  }
+
+  /** Stops recording and resolves with the encoded file. */
+  async stop(): Promise<Blob> {
+    this.active = false;
+    let blob: Blob;
+    if (this.format === 'wav') {
+      await this.stopCapture();
+      blob = encodeWav(this.chunks, this.sampleRate, this.numChannels);
+      this.chunks = [];
+    } else {
+      blob = await this.stopMediaRecorder();
+    }
+    this.dispatchEvent(new CustomEvent('recording-changed', { detail: false }));
+    return blob;
+  }
+
+  private stopMediaRecorder(): Promise<Blob> {
+    const recorder = this.mediaRecorder!;
+    this.mediaRecorder = null;
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        resolve(new Blob(this.mediaChunks, { type: recorder.mimeType }));
+        this.mediaChunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  /** The file extension for the current recording, e.g. `wav` or `webm`. */
+  get extension() {
+    return this.mimeType.split(';')[0].split('/')[1];
+  }
+
+  private fade(chunk: Int16Array, direction: 'in' | 'out') {
+    const frames = chunk.length / this.numChannels;
+    const fadeFrames = Math.min(frames, Math.round(SPLICE_FADE_SECONDS * this.sampleRate));
+    const offset = direction === 'in' ? 0 : frames - fadeFrames;
+    for (let i = 0; i < fadeFrames; i++) {
+      const gain = direction === 'in' ? i / fadeFrames : 1 - (i + 1) / fadeFrames;
+      for (let c = 0; c < this.numChannels; c++) {
+        const index = (offset + i) * this.numChannels + c;
+        chunk[index] = Math.round(chunk[index] * gain);
+      }
+    }
+  }
+}
+
+/** Builds a filename like `promptdj-2024-05-01-21-30-05.wav`. */
+export function recordingFilename(extension: string, date = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = [
+    date.getFullYear(),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+    pad(date.getHours()),
+    pad(date.getMinutes()),
+    pad(date.getSeconds()),
+  ].join('-');
+  return `promptdj-${stamp}.${extension}`;
+}
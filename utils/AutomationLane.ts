@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { checkFileVersion, isRecord, parseJson, validateNoteBinding, ValidationError } from './validation';
+
+/** Bump when the file format changes, and migrate older files in `parseAutomation`. */
+export const AUTOMATION_FILE_VERSION = 1;
+
+/** A prompt change, stamped with its time from the start of the lane. */
+export interface AutomationEvent {
+  time: number;
+  prompt: Prompt;
+}
+
+export interface Automation {
+  /** The length of the lane in milliseconds, which is where a loop wraps. */
+  length: number;
+  events: AutomationEvent[];
+}
+
+export type AutomationState = 'idle' | 'recording' | 'playing' | 'overdubbing';
+
+const SUBJECT = 'automation';
+
+/**
+ * Lanes shorter than this don't loop: each pass replays every event, so a
+ * near-empty lane would flood the deck with changes.
+ */
+const MIN_LOOP_MS = 100;
+
+function invalid(message: string) {
+  return new ValidationError(SUBJECT, message);
+}
+
+/**
+ * Records prompt changes with timestamps and replays them.
+ *
+ * Dispatches `automation-event` with the recorded prompt for each replayed
+ * change, and `state-changed` whenever recording or playback starts or stops.
+ * Overdubbing replays the lane while recording on top of it; once a prompt is
+ * touched, its old movements are replaced from that point to the end of the
+ * pass.
+ */
+export class AutomationLane extends EventTarget {
+  private events: AutomationEvent[] = [];
+  private length = 0;
+  private state: AutomationState = 'idle';
+  private loop = false;
+
+  private startTime = 0;
+  private nextIndex = 0;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  /** Events captured during the current overdub pass. */
+  private overdubEvents: AutomationEvent[] = [];
+  /** When each prompt was first touched in the current overdub pass. */
+  private touched = new Map<string, number>();
+
+  get automationState() {
+    return this.state;
+  }
+
+  get automation(): Automation {
+    return { length: this.length, events: [...this.events] };
+  }
+
+  set automation(automation: Automation) {
+    this.stop();
+    this.length = automation.length;
+    this.events = [...automation.events].sort((a, b) => a.time - b.time);
+  }
+
+  get looping() {
+    return this.loop;
+  }
+
+  set looping(loop: boolean) {
+    this.loop = loop;
+  }
+
+  /** The current time within the lane, in milliseconds. */
+  get position() {
+    if (this.state === 'idle') return 0;
+    return performance.now() - this.startTime;
+  }
+
+  /** Starts a new recording, discarding the current lane. */
+  record() {
+    this.stop();
+    this.events = [];
+    this.length = 0;
+    this.startTime = performance.now();
+    this.setState('recording');
+  }
+
+  play() {
+    if (this.events.length === 0) return;
+    this.stop();
+    this.startPass();
+    this.setState('playing');
+    this.scheduleNext();
+  }
+
+  /** Replays the lane while recording new movements on top of it. */
+  overdub() {
+    if (this.events.length === 0) {
+      this.record();
+      return;
+    }
+    this.stop();
+    this.startPass();
+    this.setState('overdubbing');
+    this.scheduleNext();
+  }
+
+  stop() {
+    if (this.timeout !== null) clearTimeout(this.timeout);
+    this.timeout = null;
+    if (this.state === 'recording') {
+      this.length = performance.now() - this.startTime;
+    } else if (this.state === 'overdubbing') {
+      this.commitOverdub();
+    }
+    if (this.state !== 'idle') this.setState('idle');
+  }
+
+  /** Records a prompt change if recording or overdubbing. */
+  capture(prompt: Prompt) {
+    if (this.state !== 'recording' && this.state !== 'overdubbing') return;
+    const event: AutomationEvent = { time: this.position, prompt: { ...prompt } };
+    if (this.state === 'recording') {
+      this.events.push(event);
+      return;
+    }
+    if (!this.touched.has(prompt.promptId)) this.touched.set(prompt.promptId, event.time);
+    this.overdubEvents.push(event);
+  }
+
+  private startPass() {
+    this.startTime = performance.now();
+    this.nextIndex = 0;
+    this.overdubEvents = [];
+    this.touched.clear();
+  }
+
+  private commitOverdub() {
+    const kept = this.events.filter((e) => {
+      const touchedAt = this.touched.get(e.prompt.promptId);
+      return touchedAt === undefined || e.time < touchedAt;
+    });
+    this.events = [...kept, ...this.overdubEvents].sort((a, b) => a.time - b.time);
+    this.overdubEvents = [];
+    this.touched.clear();
+  }
+
+  private scheduleNext() {
+    const event = this.events[this.nextIndex];
+    const wait = (event ? event.time : this.length) - this.position;
+    this.timeout = setTimeout(() => this.tick(), Math.max(0, wait));
+  }
+
+  private tick() {
+    this.timeout = null;
+    const now = this.position;
+    while (this.nextIndex < this.events.length && this.events[this.nextIndex].time <= now) {
+      const event = this.events[this.nextIndex++];
+      // Overdubbed movements take over from the old ones for the rest of the pass.
+      if (this.state === 'overdubbing' && this.touched.has(event.prompt.promptId)) continue;
+      this.dispatchEvent(new CustomEvent<Prompt>('automation-event', { detail: { ...event.prompt } }));
+    }
+    if (this.nextIndex < this.events.length || now < this.length) {
+      this.scheduleNext();
+      return;
+    }
+    if (!this.loop || this.length < MIN_LOOP_MS) {
+      this.stop();
+      return;
+    }
+    if (this.state === 'overdubbing') this.commitOverdub();
+    this.startPass();
+    this.scheduleNext();
+  }
+
+  private setState(state: AutomationState) {
+    this.state = state;
+    this.dispatchEvent(new CustomEvent<AutomationState>('state-changed', { detail: state }));
+  }
+}
+
+function validateEvent(value: unknown, index: number, length: number): AutomationEvent {
+  const where = `events[${index}]`;
+  if (!isRecord(value)) throw invalid(`${where} must be an object.`);
+  const { time, prompt } = value;
+  if (typeof time !== 'number' || !(time >= 0 && time <= length)) {
+    throw invalid(`${where}.time must be a number of milliseconds within the lane's length.`);
+  }
+  if (!isRecord(prompt)) throw invalid(`${where}.prompt must be an object.`);
+  const { promptId, text, weight, cc, channel = null, color, note = null } = prompt;
+  if (typeof promptId !== 'string' || typeof text !== 'string' || typeof color !== 'string') {
+    throw invalid(`${where}.prompt needs a promptId, text and color.`);
+  }
+  if (typeof weight !== 'number' || !(weight >= 0 && weight <= 2)) {
+    throw invalid(`${where}.prompt.weight must be a number from 0 to 2.`);
+  }
+  if (typeof cc !== 'number' || (channel !== null && typeof channel !== 'number')) {
+    throw invalid(`${where}.prompt has an invalid CC binding.`);
+  }
+  return {
+    time,
+    prompt: {
+      promptId,
+      text,
+      weight,
+      cc,
+      channel: channel as number | null,
+      color,
+      note: note === null ? null : validateNoteBinding(note, `${where}.prompt.note`, SUBJECT),
+    },
+  };
+}
+
+/** Parses and validates an exported automation lane. */
+export function parseAutomation(json: string): Automation {
+  const { length, events } = checkFileVersion(parseJson(json, SUBJECT), SUBJECT, [AUTOMATION_FILE_VERSION]);
+  if (typeof length !== 'number' || !(length >= 0)) {
+    throw invalid('length must be a number of milliseconds.');
+  }
+  if (!Array.isArray(events)) throw invalid('events must be an array.');
+  return { length, events: events.map((event, i) => validateEvent(event, i, length)) };
+}
+
+/** Serializes an automation lane to the versioned file format. */
+export function serializeAutomation(automation: Automation): string {
+  return JSON.stringify({ version: AUTOMATION_FILE_VERSION, ...automation }, null, 2);
+}
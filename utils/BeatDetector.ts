@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface BeatDetectorOptions {
+  /** How many recent frames the energy is compared against. */
+  historySize?: number;
+  /** How far above the recent average an onset must rise. */
+  sensitivity?: number;
+  /** The quietest energy that can count as an onset. */
+  minEnergy?: number;
+  /** The shortest gap between onsets, in seconds. */
+  minInterval?: number;
+}
+
+/** Tempos are folded into this octave, so half and double time agree. */
+const MIN_BPM = 80;
+const MAX_BPM = MIN_BPM * 2;
+
+/** How many recent onsets the tempo is estimated from. */
+const TEMPO_ONSETS = 16;
+
+/** Onsets further apart than this are a break in the beat, not a slow one. */
+const MAX_BEAT_INTERVAL = 2;
+
+/**
+ * Finds onsets in a stream of band energies by comparing each frame with the
+ * recent average, and estimates the tempo from the gaps between them.
+ */
+export class BeatDetector {
+  private readonly historySize: number;
+  private readonly sensitivity: number;
+  private readonly minEnergy: number;
+  private readonly minInterval: number;
+
+  private history: number[] = [];
+  private onsets: number[] = [];
+  private rising = false;
+
+  constructor(options: BeatDetectorOptions = {}) {
+    this.historySize = options.historySize ?? 45;
+    this.sensitivity = options.sensitivity ?? 1.35;
+    this.minEnergy = options.minEnergy ?? 0.05;
+    this.minInterval = options.minInterval ?? 0.25;
+  }
+
+  /**
+   * Feeds the energy of one frame heard at `time` seconds. Returns how far it
+   * stood out when it's an onset, or 0.
+   */
+  process(energy: number, time: number): number {
+    const average = this.history.reduce((sum, e) => sum + e, 0) / (this.history.length || 1);
+    this.history.push(energy);
+    if (this.history.length > this.historySize) this.history.shift();
+    if (this.history.length < this.historySize / 2) return 0;
+
+    const above = energy >= this.minEnergy && energy > average * this.sensitivity;
+    // Only the frame where the energy first rises counts, not the whole hit.
+    const onset = above && !this.rising;
+    this.rising = above;
+    if (!onset) return 0;
+    const last = this.onsets[this.onsets.length - 1];
+    if (last !== undefined && time - last < this.minInterval) return 0;
+
+    if (last !== undefined && time - last > MAX_BEAT_INTERVAL) this.onsets = [];
+    this.onsets.push(time);
+    if (this.onsets.length > TEMPO_ONSETS) this.onsets.shift();
+    return average > 0 ? energy / average : this.sensitivity;
+  }
+
+  /** The median tempo of the recent onsets, or null until there are enough. */
+  get bpm(): number | null {
+    if (this.onsets.length < 5) return null;
+    const tempos = this.onsets.slice(1).map((time, i) => {
+      let bpm = 60 / (time - this.onsets[i]);
+      while (bpm < MIN_BPM) bpm *= 2;
+      while (bpm >= MAX_BPM) bpm /= 2;
+      return bpm;
+    }).sort((a, b) => a - b);
+    return Math.round(tempos[Math.floor(tempos.length / 2)]);
+  }
+
+  reset() {
+    this.history = [];
+    this.onsets = [];
+    this.rising = false;
+  }
+}
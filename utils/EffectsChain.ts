@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CrossfadeCurve, EffectId, EffectSettings, TapPosition } from '../types';
+import { crossfadeGains } from './crossfade';
+import { debounce } from './debounce';
+import { DELAY_DIVISIONS, defaultEffectSettings } from './effects';
+
+/** How quickly gains and filter settings follow a change, to avoid zipper noise. */
+const SMOOTHING_SECONDS = 0.02;
+
+/** The longest delay, a half note at 60 BPM. */
+const MAX_DELAY_SECONDS = 2;
+
+/** The filter's cutoff at the far ends of the knob. */
+const LOWPASS_MIN_HZ = 80;
+const HIGHPASS_MAX_HZ = 8000;
+const OPEN_LOWPASS_HZ = 20000;
+const OPEN_HIGHPASS_HZ = 20;
+
+/** An effect wired in parallel with a dry path, blended by its mix. */
+interface EffectUnit {
+  input: GainNode;
+  dry: GainNode;
+  wet: GainNode;
+  output: GainNode;
+}
+
+/**
+ * How each effect's mix blends wet and dry. The filter and EQ stay in phase
+ * with the dry signal, so their gains add up and are blended evenly; the
+ * delay and reverb tails don't, so they keep the power constant instead.
+ */
+const MIX_CURVES: Record<EffectId, CrossfadeCurve> = {
+  filter: 'linear',
+  eq: 'linear',
+  delay: 'constant-power',
+  reverb: 'constant-power',
+};
+
+/**
+ * The master effects between the stream and the speakers: a DJ filter,
+ * a 3-band EQ, a tempo-synced delay and a convolution reverb, in that order.
+ * Each has a bypass and a wet/dry mix. Nodes such as the recorder and the
+ * analyser can be tapped before or after the chain.
+ */
+export class EffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly units: Record<EffectId, EffectUnit>;
+  private readonly lowpass: BiquadFilterNode;
+  private readonly highpass: BiquadFilterNode;
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly convolver: ConvolverNode;
+
+  private settings = defaultEffectSettings();
+  private bpm = 120;
+  private reverbSize = 0;
+  private readonly taps = new Map<AudioNode, TapPosition>();
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.lowpass = this.createFilter('lowpass', OPEN_LOWPASS_HZ);
+    this.highpass = this.createFilter('highpass', OPEN_HIGHPASS_HZ);
+    this.highpass.connect(this.lowpass);
+
+    this.low = this.createFilter('lowshelf', 250);
+    this.mid = this.createFilter('peaking', 1000);
+    this.high = this.createFilter('highshelf', 4000);
+    this.low.connect(this.mid).connect(this.high);
+
+    this.delay = context.createDelay(MAX_DELAY_SECONDS);
+    this.feedback = context.createGain();
+    this.delay.connect(this.feedback).connect(this.delay);
+
+    this.convolver = context.createConvolver();
+
+    const filter = this.createUnit(this.input, this.highpass, this.lowpass);
+    const eq = this.createUnit(filter.output, this.low, this.high);
+    const delay = this.createUnit(eq.output, this.delay, this.delay);
+    const reverb = this.createUnit(delay.output, this.convolver, this.convolver);
+    reverb.output.connect(this.output);
+    this.units = { filter, eq, delay, reverb };
+
+    this.apply(this.settings);
+  }
+
+  private createFilter(type: BiquadFilterType, frequency: number) {
+    const filter = this.context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    return filter;
+  }
+
+  /** Runs `source` both dry and through the effect, from `effectIn` to `effectOut`. */
+  private createUnit(source: AudioNode, effectIn: AudioNode, effectOut: AudioNode): EffectUnit {
+    const unit = {
+      input: this.context.createGain(),
+      dry: this.context.createGain(),
+      wet: this.context.createGain(),
+      output: this.context.createGain(),
+    };
+    source.connect(unit.input);
+    unit.input.connect(unit.dry).connect(unit.output);
+    unit.input.connect(effectIn);
+    effectOut.connect(unit.wet).connect(unit.output);
+    return unit;
+  }
+
+  private setParam(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, SMOOTHING_SECONDS);
+  }
+
+  apply(settings: EffectSettings) {
+    this.settings = settings;
+    const { params, bypassed } = settings;
+
+    const mixes: Record<EffectId, number> = {
+      filter: params.filterMix,
+      eq: params.eqMix,
+      delay: params.delayMix,
+      reverb: params.reverbMix,
+    };
+    for (const [id, unit] of Object.entries(this.units) as [EffectId, EffectUnit][]) {
+      const [dry, wet] = bypassed[id] ? [1, 0] : crossfadeGains(mixes[id], MIX_CURVES[id]);
+      this.setParam(unit.dry.gain, dry);
+      this.setParam(unit.wet.gain, wet);
+    }
+
+    const cutoff = params.filterCutoff;
+    this.setParam(this.lowpass.frequency, cutoff < 0
+      ? OPEN_LOWPASS_HZ * (LOWPASS_MIN_HZ / OPEN_LOWPASS_HZ) ** -cutoff
+      : OPEN_LOWPASS_HZ);
+    this.setParam(this.highpass.frequency, cutoff > 0
+      ? OPEN_HIGHPASS_HZ * (HIGHPASS_MAX_HZ / OPEN_HIGHPASS_HZ) ** cutoff
+      : OPEN_HIGHPASS_HZ);
+    // Resonance only on the side that's closing, so the open one stays flat.
+    this.setParam(this.lowpass.Q, cutoff < 0 ? params.filterResonance : Math.SQRT1_2);
+    this.setParam(this.highpass.Q, cutoff > 0 ? params.filterResonance : Math.SQRT1_2);
+
+    this.setParam(this.low.gain, params.eqLow);
+    this.setParam(this.mid.gain, params.eqMid);
+    this.setParam(this.high.gain, params.eqHigh);
+
+    this.setParam(this.feedback.gain, params.delayFeedback);
+    this.updateDelayTime();
+
+    if (params.reverbSize !== this.reverbSize) this.updateImpulse();
+  }
+
+  /** Keeps the delay in time with the music. */
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+    this.updateDelayTime();
+  }
+
+  private updateDelayTime() {
+    const { beats } = DELAY_DIVISIONS[this.settings.params.delayDivision] ?? DELAY_DIVISIONS[0];
+    this.setParam(this.delay.delayTime, Math.min(MAX_DELAY_SECONDS, (beats * 60) / this.bpm));
+  }
+
+  /** Regenerating the impulse is costly, so it waits for the size knob to settle. */
+  private readonly updateImpulse = debounce(() => {
+    this.reverbSize = this.settings.params.reverbSize;
+    this.convolver.buffer = this.createImpulse(this.reverbSize);
+  }, 150);
+
+  /** A burst of stereo noise decaying over `seconds`, like a room's tail. */
+  private createImpulse(seconds: number) {
+    const { sampleRate } = this.context;
+    const length = Math.round(seconds * sampleRate);
+    const impulse = this.context.createBuffer(2, length, sampleRate);
+    for (let c = 0; c < 2; c++) {
+      const data = impulse.getChannelData(c);
+      for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+      }
+    }
+    return impulse;
+  }
+
+  /** Connects a node to listen before or after the effects, moving it if it already does. */
+  setTap(node: AudioNode, position: TapPosition) {
+    const current = this.taps.get(node);
+    if (current === position) return;
+    if (current) this.tapSource(current).disconnect(node);
+    this.tapSource(position).connect(node);
+    this.taps.set(node, position);
+  }
+
+  private tapSource(position: TapPosition) {
+    return position === 'pre' ? this.input : this.output;
+  }
+}
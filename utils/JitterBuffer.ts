@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface JitterBufferOptions {
+  /** The buffer to start with, in seconds. */
+  initialTarget?: number;
+  minTarget?: number;
+  maxTarget?: number;
+  /** How much the target grows after each underrun. */
+  growFactor?: number;
+  /** How much the target shrinks after each stable stretch. */
+  shrinkFactor?: number;
+  /** How long without an underrun counts as stable, in seconds. */
+  stableSeconds?: number;
+}
+
+/** The buffer never shrinks below this many times the jitter. */
+const JITTER_HEADROOM = 4;
+
+/**
+ * Decides how much audio to buffer before playing. The target grows after
+ * each underrun and shrinks again while chunks keep arriving in time. Jitter
+ * is the smoothed difference between the gap between two arrivals and the
+ * audio the first one held, as in RTP (RFC 3550).
+ */
+export class JitterBuffer {
+  private readonly minTarget: number;
+  private readonly maxTarget: number;
+  private readonly growFactor: number;
+  private readonly shrinkFactor: number;
+  private readonly stableSeconds: number;
+
+  private currentTarget: number;
+  private underrunCount = 0;
+  private smoothedJitter = 0;
+  private lastArrival: { time: number; duration: number } | null = null;
+  private stableSince: number | null = null;
+
+  constructor(options: JitterBufferOptions = {}) {
+    this.currentTarget = options.initialTarget ?? 2;
+    this.minTarget = options.minTarget ?? 0.5;
+    this.maxTarget = options.maxTarget ?? 8;
+    this.growFactor = options.growFactor ?? 1.5;
+    this.shrinkFactor = options.shrinkFactor ?? 0.8;
+    this.stableSeconds = options.stableSeconds ?? 30;
+  }
+
+  /** Seconds of audio to have scheduled before playing. */
+  get target() {
+    return this.currentTarget;
+  }
+
+  get underruns() {
+    return this.underrunCount;
+  }
+
+  /** In seconds. */
+  get jitter() {
+    return this.smoothedJitter;
+  }
+
+  /** Notes a chunk of `duration` seconds arriving at `time`. */
+  arrive(time: number, duration: number) {
+    if (this.lastArrival) {
+      const deviation = Math.abs(time - this.lastArrival.time - this.lastArrival.duration);
+      this.smoothedJitter += (deviation - this.smoothedJitter) / 16;
+    }
+    this.lastArrival = { time, duration };
+    this.stableSince ??= time;
+    if (time - this.stableSince >= this.stableSeconds) {
+      const floor = Math.max(this.minTarget, this.smoothedJitter * JITTER_HEADROOM);
+      // Rising jitter can hold the target up, or even raise it.
+      this.currentTarget = Math.min(this.maxTarget, Math.max(floor, this.currentTarget * this.shrinkFactor));
+      this.stableSince = time;
+    }
+  }
+
+  /** Notes that playback ran dry at `time`. */
+  underrun(time: number) {
+    this.underrunCount++;
+    this.currentTarget = Math.min(this.maxTarget, this.currentTarget * this.growFactor);
+    this.stableSince = time;
+  }
+
+  /** Forgets the last arrival, e.g. after a pause, keeping what's been learned. */
+  restart() {
+    this.lastArrival = null;
+    this.stableSince = null;
+  }
+}
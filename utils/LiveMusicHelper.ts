@@ -2,107 +2,255 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
-import { throttle } from './throttle';
+import type { BufferStats, FilteredPrompt, GenerationConfig, PlaybackReason, PlaybackState, PlaybackStateChange, Prompt } from '../types';
+import type { LiveMusicFilteredPrompt, WeightedPrompt } from '@google/genai';
+import type { DecodedPcm } from './audio';
+import { coalesce } from './coalesce';
+import { debounce } from './debounce';
+import { EffectsChain } from './EffectsChain';
+import { effectiveBpm, RESET_CONTEXT_PARAMS } from './generationConfig';
+import { JitterBuffer } from './JitterBuffer';
+import type { JitterBufferOptions } from './JitterBuffer';
+import { BACKEND_CHANNELS, BACKEND_SAMPLE_RATE } from './MusicBackend';
+import type { MusicBackend, PcmData } from './MusicBackend';
+import { PcmDecoder } from './PcmDecoder';
+import { PcmPlayer } from './PcmPlayer';
+
+export interface LiveMusicHelperOptions {
+  /** How many times to try reconnecting after the session drops. */
+  maxReconnectAttempts?: number;
+  /** The wait before the first reconnect, doubled after each failure. */
+  reconnectBaseDelayMs?: number;
+  jitterBuffer?: JitterBufferOptions;
+}
+
+/** The longest wait between reconnect attempts. */
+const MAX_RECONNECT_DELAY_MS = 16000;
+
+/** How long a reconnect attempt may take before it counts as failed. */
+const CONNECT_TIMEOUT_MS = 10000;
+
+/** The fade-in applied to the first audio after a reconnect. */
+const RECONNECT_FADE_SECONDS = 0.5;
+
+/** The fade on each side of a gap left by a late chunk. */
+const GAP_FADE_SECONDS = 0.02;
+
+/** How long the output takes to fade in or out as playback starts, pauses or stops. */
+const OUTPUT_FADE_SECONDS = 0.1;
+
+/** The shortest gap between prompt or config updates sent to the backend. */
+const SEND_INTERVAL_MS = 200;
+
+/** The states playback can move to from each state. */
+const TRANSITIONS: Record<PlaybackState, PlaybackState[]> = {
+  stopped: ['connecting'],
+  connecting: ['buffering', 'paused', 'stopped', 'reconnecting', 'error'],
+  buffering: ['playing', 'paused', 'stopped', 'reconnecting', 'error'],
+  playing: ['buffering', 'paused', 'stopped', 'reconnecting', 'error'],
+  paused: ['connecting', 'stopped', 'error'],
+  reconnecting: ['buffering', 'paused', 'stopped', 'error'],
+  error: ['connecting', 'stopped'],
+};
+
+function samePrompts(a: WeightedPrompt[], b: WeightedPrompt[]) {
+  return a.length === b.length && a.every((p, i) => p.text === b[i].text && p.weight === b[i].weight);
+}
+
+function sameConfig(a: GenerationConfig, b: GenerationConfig) {
+  const keys = Object.keys(a) as (keyof GenerationConfig)[];
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
 
 export class LiveMusicHelper extends EventTarget {
 
-  private ai: GoogleGenAI;
-  private model: string;
+  private backend: MusicBackend;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+  private connected = false;
+  private connectPromise: Promise<void> | null = null;
 
-  private connectionError = true;
+  private readonly maxReconnectAttempts: number;
+  private readonly reconnectBaseDelayMs: number;
+  private fadeInOnStart = false;
 
-  private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  /** Texts the server refused, which are held back until cleared or taken off the deck. */
+  private filteredPrompts = new Map<string, FilteredPrompt>();
+  private readonly jitterBuffer: JitterBuffer;
+  private readonly decoder: PcmDecoder;
+  private readonly player: PcmPlayer;
 
   public readonly audioContext: AudioContext;
-  public extraDestination: AudioNode | null = null;
+  /** Everything played runs through these on the way to the speakers. */
+  public readonly effects: EffectsChain;
 
-  private outputNode: GainNode;
+  private readonly outputNode: GainNode;
   private playbackState: PlaybackState = 'stopped';
 
   private prompts: Map<string, Prompt>;
+  private config: GenerationConfig = {};
 
-  constructor(ai: GoogleGenAI, model: string) {
+  constructor(backend: MusicBackend, options: LiveMusicHelperOptions = {}) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.backend = backend;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 500;
+    this.jitterBuffer = new JitterBuffer(options.jitterBuffer);
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    this.audioContext = new AudioContext({ sampleRate: BACKEND_SAMPLE_RATE });
     this.outputNode = this.audioContext.createGain();
+    this.effects = new EffectsChain(this.audioContext);
+    this.effects.output.connect(this.audioContext.destination);
+    this.decoder = new PcmDecoder(BACKEND_CHANNELS);
+    this.player = new PcmPlayer(this.audioContext, BACKEND_CHANNELS, this.jitterBuffer.target, GAP_FADE_SECONDS);
+    this.player.addEventListener('started', () => this.handlePlayerStarted());
+    this.player.addEventListener('underrun', () => this.handleUnderrun());
+    this.player.addEventListener('buffered', ((e: CustomEvent<number>) => {
+      this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', {
+        detail: {
+          depth: e.detail,
+          target: this.jitterBuffer.target,
+          underruns: this.jitterBuffer.underruns,
+          jitter: this.jitterBuffer.jitter,
+        },
+      }));
+    }) as EventListener);
+
+    this.backend.addEventListener('filtered-prompt', ((e: CustomEvent<LiveMusicFilteredPrompt>) => {
+      const text = e.detail.text!;
+      this.filteredPrompts.set(text, { text, reason: e.detail.filteredReason ?? null, time: Date.now() });
+      this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.detail }));
+      this.dispatchFilteredPrompts();
+    }) as EventListener);
+    this.backend.addEventListener('audio-chunk', ((e: CustomEvent<PcmData>) => {
+      this.processAudioChunk(e.detail);
+    }) as EventListener);
+    this.backend.addEventListener('connection-lost', () => this.handleConnectionLost());
   }
 
-  private getSession(): Promise<LiveMusicSession> {
-    if (!this.sessionPromise) this.sessionPromise = this.connect();
-    return this.sessionPromise;
-  }
-
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-      },
-    });
-    return this.sessionPromise;
+  private connect(): Promise<void> {
+    if (!this.connectPromise) {
+      const connectPromise = this.backend.connect().then(() => {
+        // A stop while connecting leaves the connection unused.
+        if (this.connectPromise !== connectPromise) return;
+        this.connected = true;
+        // A new connection starts out knowing nothing.
+        this.promptSender.reset();
+        this.configSender.reset();
+      });
+      this.connectPromise = connectPromise;
+    }
+    return this.connectPromise;
   }
 
-  private setPlaybackState(state: PlaybackState) {
-    this.playbackState = state;
-    this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
+  private handleConnectionLost() {
+    this.connected = false;
+    this.connectPromise = null;
+    if (this.inState('connecting', 'buffering', 'playing')) {
+      this.reconnect();
+      return;
+    }
+    // Nothing is playing once stopped, so a late close is no news.
+    if (this.inState('reconnecting', 'stopped')) return;
+    this.fail('connection-lost', 'Connection error, please restart audio.');
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
-    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+  /**
+   * Reconnects with exponential backoff, then restores the prompts and config
+   * and resumes playback with a fade-in. Gives up after `maxReconnectAttempts`,
+   * or as soon as the user stops or pauses.
+   */
+  private async reconnect() {
+    this.transition('reconnecting', 'connection-lost');
+    this.fadeOutput();
+    for (let attempt = 1; attempt <= this.maxReconnectAttempts; attempt++) {
+      const delay = Math.min(this.reconnectBaseDelayMs * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      if (!this.inState('reconnecting')) return;
+      try {
+        await Promise.race([
+          this.connect(),
+          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Connection timed out')), CONNECT_TIMEOUT_MS)),
+        ]);
+        if (!this.inState('reconnecting')) return;
+        await this.sendWeightedPrompts();
+        await this.sendConfig();
+        await this.connectOutput();
+        if (!this.inState('reconnecting')) return;
+        this.fadeInOnStart = true;
+        this.backend.play();
+        this.transition('buffering', 'reconnected');
+        return;
+      } catch (e) {
+        console.warn(`Reconnect attempt ${attempt} failed`, e);
+        this.backend.disconnect();
+        this.connected = false;
+        this.connectPromise = null;
+      }
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
+    this.fail(
+      'reconnect-failed',
+      `Lost the connection to the music service and couldn't reconnect after ${this.maxReconnectAttempts} attempts. Press play to try again.`,
+    );
+  }
+
+  /**
+   * Moves to `state` if the current state allows it, telling listeners what
+   * it moved from and why. Returns whether it moved.
+   */
+  private transition(state: PlaybackState, reason: PlaybackReason) {
+    const previous = this.playbackState;
+    if (!TRANSITIONS[previous].includes(state)) return false;
+    this.playbackState = state;
+    this.dispatchEvent(new CustomEvent<PlaybackStateChange>('playback-state-changed', {
+      detail: { state, previous, reason },
+    }));
+    return true;
+  }
+
+  /** Checks the state without narrowing it, as it can change across an `await`. */
+  private inState(...states: PlaybackState[]) {
+    return states.includes(this.playbackState);
+  }
+
+  private async processAudioChunk(data: PcmData) {
+    let decoded: DecodedPcm;
+    try {
+      decoded = await this.decoder.decode(data);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: `Couldn't decode audio: ${e.message}` }));
       return;
     }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+    const { pcm, channels } = decoded;
+    if (this.inState('stopped', 'error')) return;
+    // Chunks still arriving after a pause were generated before it, and the
+    // model resumes right after them, so they're passed on to be recorded.
+    this.dispatchEvent(new CustomEvent<Int16Array>('audio-chunk', { detail: pcm }));
+    if (!this.inState('buffering', 'playing')) return;
+    this.jitterBuffer.arrive(Date.now() / 1000, channels[0].length / BACKEND_SAMPLE_RATE);
+    this.player.setTarget(this.jitterBuffer.target);
+    this.player.push(channels);
+  }
+
+  private handlePlayerStarted() {
+    if (!this.inState('buffering')) return;
+    if (this.fadeInOnStart) {
+      this.fadeInOnStart = false;
+      const now = this.audioContext.currentTime;
+      this.outputNode.gain.setValueAtTime(0, now);
+      this.outputNode.gain.linearRampToValueAtTime(1, now + RECONNECT_FADE_SECONDS);
+    }
+    this.transition('playing', 'buffered');
+  }
+
+  /**
+   * The player ran dry and faded out, so it buffers for longer before
+   * fading back in.
+   */
+  private handleUnderrun() {
+    if (!this.inState('playing')) return;
+    this.jitterBuffer.underrun(Date.now() / 1000);
+    this.player.setTarget(this.jitterBuffer.target);
+    this.transition('buffering', 'underrun');
   }
 
   public get activePrompts() {
@@ -112,61 +260,180 @@ export class LiveMusicHelper extends EventTarget {
       })
   }
 
-  public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
+  public async setWeightedPrompts(prompts: Map<string, Prompt>) {
     this.prompts = prompts;
+    this.forgetUnusedFilters();
 
     if (this.activePrompts.length === 0) {
       this.dispatchEvent(new CustomEvent('error', { detail: 'There needs to be one active prompt to play.' }));
-      this.pause();
+      this.pause('no-active-prompts');
       return;
     }
 
     // store the prompts to set later if we haven't connected yet
     // there should be a user interaction before calling setWeightedPrompts
-    if (!this.session) return;
+    if (!this.connected) return;
+
+    await this.sendWeightedPrompts();
+  }
 
+  /**
+   * A filter only holds while its text is on the deck, so a prompt edited
+   * away from a filtered text and back again is checked again.
+   */
+  private forgetUnusedFilters() {
+    const texts = new Set([...this.prompts.values()].map((p) => p.text));
+    const unused = [...this.filteredPrompts.keys()].filter((text) => !texts.has(text));
+    if (unused.length === 0) return;
+    for (const text of unused) this.filteredPrompts.delete(text);
+    this.dispatchFilteredPrompts();
+  }
+
+  /** Stops holding back a filtered text, which goes out with the next prompt update. */
+  public clearFilteredPrompt(text: string) {
+    if (!this.filteredPrompts.delete(text)) return;
+    this.dispatchFilteredPrompts();
+  }
+
+  /** Stops holding back a filtered text and sends it straight away for the server to check again. */
+  public async retryFilteredPrompt(text: string) {
+    this.clearFilteredPrompt(text);
+    await this.sendWeightedPrompts();
+  }
+
+  private dispatchFilteredPrompts() {
+    this.dispatchEvent(new CustomEvent<Map<string, FilteredPrompt>>('filtered-prompts-changed', {
+      detail: new Map(this.filteredPrompts),
+    }));
+  }
+
+  private async sendWeightedPrompts() {
+    if (!this.connected) return;
     const weightedPrompts = this.activePrompts.map((p) => {
       return {text: p.text, weight: p.weight};
     });
+    await this.promptSender(weightedPrompts);
+  }
+
+  /**
+   * Coalesces prompt updates so a knob sweep never ends on a stale mix, and
+   * keeps them in order by never having two in flight.
+   */
+  private readonly promptSender = coalesce(async (weightedPrompts: WeightedPrompt[]) => {
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts,
-      });
+      await this.backend.setWeightedPrompts(weightedPrompts);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+      this.pause('request-failed');
+    }
+  }, SEND_INTERVAL_MS, samePrompts);
+
+  /**
+   * Updates the music generation config. Params that apply live are sent
+   * right away; BPM and scale also reset the context, which is deferred
+   * until they stop changing so a knob sweep doesn't restart the music on
+   * every step.
+   */
+  public setMusicGenerationConfig(config: GenerationConfig) {
+    const needsReset = RESET_CONTEXT_PARAMS.some((param) => config[param] !== this.config[param]);
+    this.config = { ...config };
+    this.effects.setBpm(effectiveBpm(this.config));
+
+    // store the config to send later if we haven't connected yet
+    if (!this.connected) return;
+
+    if (needsReset) {
+      this.resetContextWithConfig();
+    } else {
+      this.sendConfig();
+    }
+  }
+
+  private async sendConfig() {
+    if (!this.connected) return;
+    await this.configSender(this.config);
+  }
+
+  private readonly configSender = coalesce(async (config: GenerationConfig) => {
+    try {
+      await this.backend.setConfig(config);
     } catch (e: any) {
       this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
-      this.pause();
     }
-  }, 200);
+  }, SEND_INTERVAL_MS, sameConfig);
+
+  private readonly resetContextWithConfig = debounce(async () => {
+    await this.sendConfig();
+    if (this.connected) this.backend.resetContext();
+  }, 600);
 
+  /**
+   * Connects and sends the prompts and config, then starts the backend and
+   * buffers. A pause or stop along the way ends it where it is.
+   */
   public async play() {
-    this.setPlaybackState('loading');
-    this.session = await this.getSession();
+    if (!this.transition('connecting', 'play')) return;
+    try {
+      await this.connect();
+    } catch (e: any) {
+      if (this.inState('connecting')) this.fail('connect-failed', `Couldn't connect to the music service: ${e.message}`);
+      return;
+    }
+    if (!this.inState('connecting')) return;
     await this.setWeightedPrompts(this.prompts);
+    if (!this.inState('connecting')) return;
+    if (Object.keys(this.config).length > 0) await this.sendConfig();
     this.audioContext.resume();
-    this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
-    if (this.extraDestination) this.outputNode.connect(this.extraDestination);
+    try {
+      await this.connectOutput();
+    } catch (e: any) {
+      if (this.inState('connecting')) this.fail('output-failed', `Couldn't start playback: ${e.message}`);
+      return;
+    }
+    if (!this.inState('connecting')) return;
+    this.backend.play();
+    this.transition('buffering', 'connected');
+  }
+
+  private async connectOutput() {
+    const player = await this.player.load();
+    player.connect(this.outputNode);
+    this.outputNode.connect(this.effects.input);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
+    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + OUTPUT_FADE_SECONDS);
   }
 
-  public pause() {
-    if (this.session) this.session.pause();
-    this.setPlaybackState('paused');
-    this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
+  /** Fades out whatever is buffered and drops the rest. */
+  private fadeOutput() {
+    this.player.stop(OUTPUT_FADE_SECONDS);
+    this.jitterBuffer.restart();
   }
 
-  public stop() {
-    if (this.session) this.session.stop();
-    this.setPlaybackState('stopped');
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    this.session = null;
-    this.sessionPromise = null;
+  public pause(reason: PlaybackReason = 'pause') {
+    if (!this.transition('paused', reason)) return;
+    if (this.connected) this.backend.pause();
+    this.fadeOutput();
+  }
+
+  public stop(reason: PlaybackReason = 'stop') {
+    this.transition('stopped', reason);
+    this.endSession();
+  }
+
+  /** Gives up on playback until the user starts it again. */
+  private fail(reason: PlaybackReason, message: string) {
+    this.transition('error', reason);
+    this.endSession();
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  private endSession() {
+    if (this.connected) this.backend.stop();
+    // Also abandons a connection still being opened.
+    this.backend.disconnect();
+    this.fadeOutput();
+    this.connected = false;
+    this.connectPromise = null;
   }
 
   public async playPause() {
@@ -175,8 +442,11 @@ export class LiveMusicHelper extends EventTarget {
         return this.pause();
       case 'paused':
       case 'stopped':
+      case 'error':
         return this.play();
-      case 'loading':
+      case 'connecting':
+      case 'buffering':
+      case 'reconnecting':
         return this.stop();
     }
   }
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { WeightedPrompt } from '@google/genai';
+import type { GenerationConfig } from '../types';
+import { effectiveBpm } from './generationConfig';
+import { BACKEND_CHANNELS, BACKEND_SAMPLE_RATE } from './MusicBackend';
+import type { MusicBackend } from './MusicBackend';
+
+/** How much audio each chunk holds, and how often one is sent. */
+const CHUNK_SECONDS = 1;
+
+/** Semitones above A2 that voices are tuned to, a minor pentatonic. */
+const PENTATONIC = [0, 3, 5, 7, 10, 12, 15, 17, 19, 22];
+
+const A2 = 110;
+
+interface Voice {
+  frequency: number;
+  /** 1 is a sine, higher values add odd harmonics towards a square. */
+  harmonics: number;
+  /** Pulses per beat: 0 drones, 1 is quarters, 2 eighths, 4 sixteenths. */
+  pulses: number;
+  phase: number;
+}
+
+/** A stable hash, so a prompt always sounds the same. */
+function hashText(text: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function createVoice(text: string): Voice {
+  const hash = hashText(text.toLowerCase());
+  const semitones = PENTATONIC[hash % PENTATONIC.length];
+  return {
+    frequency: A2 * 2 ** (semitones / 12),
+    harmonics: 1 + ((hash >>> 4) % 4),
+    pulses: [0, 1, 2, 4][(hash >>> 8) % 4],
+    phase: 0,
+  };
+}
+
+/**
+ * Plays a layer of oscillators for the weighted prompts, so the deck works
+ * without a network connection or an API key. Each prompt gets its own pitch,
+ * timbre and rhythm, mixed by weight and pulsed at the configured BPM.
+ * Brightness opens up the harmonics and density speeds up the pulses.
+ */
+export class LocalSynthBackend extends EventTarget implements MusicBackend {
+
+  private connected = false;
+  private playing = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private prompts: WeightedPrompt[] = [];
+  private config: GenerationConfig = {};
+  private voices = new Map<string, Voice>();
+  /** Samples generated since the context was reset, for keeping the beat. */
+  private position = 0;
+
+  async connect() {
+    this.disconnect();
+    this.connected = true;
+  }
+
+  disconnect() {
+    this.stop();
+  }
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.prompts = prompts;
+  }
+
+  async setConfig(config: GenerationConfig) {
+    this.config = { ...config };
+  }
+
+  resetContext() {
+    this.position = 0;
+    this.voices.clear();
+  }
+
+  play() {
+    if (!this.connected || this.playing) return;
+    this.playing = true;
+    this.sendChunk();
+    this.timer = setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  stop() {
+    this.pause();
+    this.connected = false;
+    this.resetContext();
+  }
+
+  private getVoice(text: string) {
+    let voice = this.voices.get(text);
+    if (!voice) {
+      voice = createVoice(text);
+      this.voices.set(text, voice);
+    }
+    return voice;
+  }
+
+  private sendChunk() {
+    this.dispatchEvent(new CustomEvent<Uint8Array>('audio-chunk', { detail: this.renderChunk() }));
+  }
+
+  /** Renders the next chunk as interleaved 16-bit PCM. */
+  private renderChunk() {
+    const frames = CHUNK_SECONDS * BACKEND_SAMPLE_RATE;
+    const mix = new Float32Array(frames);
+    const beatFrames = (60 / effectiveBpm(this.config)) * BACKEND_SAMPLE_RATE;
+    const brightness = this.config.brightness ?? 0.5;
+    const density = this.config.density ?? 0.5;
+    const totalWeight = this.prompts.reduce((sum, p) => sum + (p.weight ?? 0), 0);
+
+    for (const prompt of this.prompts) {
+      if (!prompt.text || !prompt.weight || totalWeight === 0) continue;
+      const voice = this.getVoice(prompt.text);
+      const gain = (0.3 * prompt.weight) / Math.max(1, totalWeight);
+      const harmonics = Math.max(1, Math.round(voice.harmonics * (0.5 + brightness)));
+      const pulses = voice.pulses * (density < 0.34 ? 0.5 : density > 0.67 ? 2 : 1);
+      const step = (2 * Math.PI * voice.frequency) / BACKEND_SAMPLE_RATE;
+
+      for (let i = 0; i < frames; i++) {
+        let sample = 0;
+        for (let h = 1; h <= harmonics; h++) {
+          sample += Math.sin(voice.phase * (2 * h - 1)) / (2 * h - 1);
+        }
+        let envelope = 1;
+        if (pulses > 0) {
+          const pulseFrames = beatFrames / pulses;
+          const t = ((this.position + i) % pulseFrames) / pulseFrames;
+          envelope = Math.exp(-6 * t);
+        }
+        mix[i] += sample * envelope * gain;
+        voice.phase = (voice.phase + step) % (2 * Math.PI);
+      }
+    }
+    this.position += frames;
+
+    const pcm = new Int16Array(frames * BACKEND_CHANNELS);
+    for (let i = 0; i < frames; i++) {
+      const value = Math.max(-1, Math.min(1, mix[i])) * 32767;
+      for (let c = 0; c < BACKEND_CHANNELS; c++) pcm[i * BACKEND_CHANNELS + c] = value;
+    }
+    return new Uint8Array(pcm.buffer);
+  }
+
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession, WeightedPrompt } from '@google/genai';
+import type { GenerationConfig } from '../types';
+import type { MusicBackend, PcmData } from './MusicBackend';
+
+/** Generates music with Lyria RealTime through the Gemini API. */
+export class LyriaBackend extends EventTarget implements MusicBackend {
+
+  private ai: GoogleGenAI;
+  private model: string;
+
+  private session: LiveMusicSession | null = null;
+  private connectionId = 0;
+
+  constructor(ai: GoogleGenAI, model: string) {
+    super();
+    this.ai = ai;
+    this.model = model;
+  }
+
+  async connect() {
+    this.disconnect();
+    // Callbacks from a session that has since been replaced are ignored.
+    const connectionId = this.connectionId;
+    const isCurrent = () => connectionId === this.connectionId;
+    const session = await this.ai.live.music.connect({
+      model: this.model,
+      callbacks: {
+        onmessage: (e: LiveMusicServerMessage) => {
+          if (!isCurrent()) return;
+          if (e.filteredPrompt) {
+            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
+          }
+          const data = e.serverContent?.audioChunks?.[0]?.data;
+          if (data) {
+            this.dispatchEvent(new CustomEvent<PcmData>('audio-chunk', { detail: data }));
+          }
+        },
+        onerror: () => {
+          if (isCurrent()) this.handleConnectionLost();
+        },
+        onclose: () => {
+          if (isCurrent()) this.handleConnectionLost();
+        },
+      },
+    });
+    if (!isCurrent()) {
+      session.close();
+      return;
+    }
+    this.session = session;
+  }
+
+  disconnect() {
+    this.connectionId++;
+    this.session?.close();
+    this.session = null;
+  }
+
+  private handleConnectionLost() {
+    this.connectionId++;
+    this.session = null;
+    this.dispatchEvent(new CustomEvent('connection-lost'));
+  }
+
+  async setWeightedPrompts(weightedPrompts: WeightedPrompt[]) {
+    await this.session?.setWeightedPrompts({ weightedPrompts });
+  }
+
+  async setConfig(config: GenerationConfig) {
+    await this.session?.setMusicGenerationConfig({ musicGenerationConfig: config });
+  }
+
+  resetContext() {
+    this.session?.resetContext();
+  }
+
+  play() {
+    this.session?.play();
+  }
+
+  pause() {
+    this.session?.pause();
+  }
+
+  stop() {
+    this.session?.stop();
+    // Closing also abandons a connect still in flight, and keeps the close quiet.
+    this.disconnect();
+  }
+
+}
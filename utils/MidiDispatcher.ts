@@ -2,12 +2,86 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type { ControlChange, MidiBinding, NoteBinding, NoteMessage } from '../types';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Whether a CC message is addressed to a learned binding. */
+export function matchesBinding(binding: MidiBinding, change: ControlChange) {
+  return binding.cc === change.cc &&
+    (binding.channel === null || binding.channel === change.channel);
+}
+
+/** Whether a note message is addressed to a learned note binding. */
+export function matchesNote(binding: NoteBinding, message: NoteMessage) {
+  return binding.note === message.note &&
+    (binding.channel === null || binding.channel === message.channel);
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/** Names a MIDI note number, with middle C (60) as C4. */
+export function formatNote(note: number) {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+/** Labels a binding for display, e.g. `CH3 CC:74` or `OMNI CC:74`. */
+export function formatBinding(binding: MidiBinding) {
+  const channel = binding.channel === null ? 'OMNI' : `CH${binding.channel + 1}`;
+  return `${channel} CC:${binding.cc}`;
+}
+
+/** Identifies a CC or note on a channel, regardless of its value. */
+function feedbackKey(type: number, channel: number, data1: number) {
+  return ((type | channel) << 8) | data1;
+}
+
+/** How often queued feedback is flushed to the output, in milliseconds. */
+const OUTPUT_INTERVAL_MS = 20;
+
+/**
+ * The most messages sent per flush. DIN MIDI carries roughly a thousand
+ * three-byte messages per second, so this leaves room for the device's own.
+ */
+const MAX_MESSAGES_PER_FLUSH = 8;
+
+/** Feedback for a CC is held back this long after the device last sent it. */
+const ECHO_SUPPRESSION_MS = 150;
+
+/**
+ * Simple class for dispatching MIDI CC and note messages as events, and for
+ * sending feedback to the matching output of the active device.
+ */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  private inputId: string | null = null;
+  private output: MIDIOutput | null = null;
+
+  /** The latest feedback for each CC or note, keyed by status and data byte. */
+  private feedback = new Map<number, number[]>();
+  private pendingFeedback = new Set<number>();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+  private lastInputTimes = new Map<number, number>();
+  /** What each flashing pad shows right now, sent in place of its feedback. */
+  private flashes = new Map<number, number[]>();
+
+  get activeMidiInputId() {
+    return this.inputId;
+  }
+
+  set activeMidiInputId(id: string | null) {
+    this.inputId = id;
+    this.output = this.findOutput(id);
+    // Bring the newly selected device up to date with everything known.
+    this.pendingFeedback = new Set(this.feedback.keys());
+    this.scheduleFlush();
+  }
+
+  /** Finds the output on the same device as an input, matched by name. */
+  private findOutput(inputId: string | null): MIDIOutput | null {
+    if (!this.access || inputId === null) return null;
+    const name = this.access.inputs.get(inputId)?.name;
+    if (!name) return null;
+    return [...this.access.outputs.values()].find((output) => output.name === name) ?? null;
+  }
 
   async getMidiAccess(): Promise<string[]> {
 
@@ -47,19 +121,98 @@ export class MidiDispatcher extends EventTarget {
         const channel = statusByte & 0x0f;
         const messageType = statusByte & 0xf0;
 
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
-
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
+        if (messageType === 0xb0) {
+          this.lastInputTimes.set(feedbackKey(0xb0, channel, data[1]), performance.now());
+          const detail: ControlChange = { cc: data[1], value: data[2], channel };
+          this.dispatchEvent(
+            new CustomEvent<ControlChange>('cc-message', { detail }),
+          );
+        } else if (messageType === 0x90 || messageType === 0x80) {
+          // Many devices send note-off as a note-on with zero velocity.
+          const velocity = messageType === 0x90 ? data[2] : 0;
+          const detail: NoteMessage = { note: data[1], velocity, channel };
+          this.dispatchEvent(
+            new CustomEvent<NoteMessage>('note-message', { detail }),
+          );
+        }
       };
     }
 
     return inputIds;
   }
 
+  /** Echoes a value to a CC on the active device, e.g. for an LED ring. */
+  sendControlChange(binding: MidiBinding, value: number) {
+    this.queueFeedback(0xb0, binding.channel ?? 0, binding.cc, value);
+  }
+
+  /** Lights a note pad with the given velocity, or turns it off at 0. */
+  sendNote(binding: NoteBinding, velocity: number) {
+    this.queueFeedback(0x90, binding.channel ?? 0, binding.note, velocity);
+  }
+
+  /**
+   * Blinks a note pad a few times, then restores its current state. Each
+   * blink is queued like any other feedback, so it shares the rate limit.
+   */
+  flashNote(binding: NoteBinding, times = 3, intervalMs = 120) {
+    const key = feedbackKey(0x90, binding.channel ?? 0, binding.note);
+    if (this.flashes.has(key)) return;
+    const status = 0x90 | (binding.channel ?? 0);
+    const blink = (i: number) => {
+      if (i === times * 2) {
+        this.flashes.delete(key);
+      } else {
+        this.flashes.set(key, [status, binding.note, i % 2 === 0 ? 127 : 0]);
+        setTimeout(() => blink(i + 1), intervalMs);
+      }
+      this.pendingFeedback.add(key);
+      this.scheduleFlush();
+    };
+    blink(0);
+  }
+
+  private queueFeedback(type: number, channel: number, data1: number, data2: number) {
+    const key = feedbackKey(type, channel, data1);
+    const message = [type | channel, data1, Math.max(0, Math.min(127, Math.round(data2)))];
+    const previous = this.feedback.get(key);
+    if (previous && previous[2] === message[2]) return;
+    this.feedback.set(key, message);
+    this.pendingFeedback.add(key);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimeout !== null || this.pendingFeedback.size === 0) return;
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flushFeedback();
+    }, OUTPUT_INTERVAL_MS);
+  }
+
+  private flushFeedback() {
+    if (!this.output) {
+      this.pendingFeedback.clear();
+      return;
+    }
+    const now = performance.now();
+    let sent = 0;
+    for (const key of this.pendingFeedback) {
+      if (sent === MAX_MESSAGES_PER_FLUSH) break;
+      const flash = this.flashes.get(key);
+      // Don't fight a fader or knob that is being moved on the device.
+      const lastInput = this.lastInputTimes.get(key) ?? -Infinity;
+      if (!flash && now - lastInput < ECHO_SUPPRESSION_MS) continue;
+      this.pendingFeedback.delete(key);
+      // A pad that was never lit has nothing to restore after its flash.
+      const message = flash ?? this.feedback.get(key);
+      if (!message) continue;
+      this.output.send(message);
+      sent++;
+    }
+    this.scheduleFlush();
+  }
+
   getDeviceName(id: string): string | null {
     if (!this.access) {
       return null;
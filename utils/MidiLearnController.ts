@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ReactiveController, ReactiveControllerHost } from 'lit';
+
+import type { ControlChange, MidiBinding } from '../types';
+import { formatBinding } from './MidiDispatcher';
+import type { MidiDispatcher } from './MidiDispatcher';
+
+export interface MidiLearnOptions<K extends string> {
+  /** The dispatcher to listen to, read each time the host connects. */
+  dispatcher: () => MidiDispatcher | null;
+  binding: (key: K) => MidiBinding;
+  /** Takes a learned binding, or one switched in or out of omni. */
+  setBinding: (key: K, binding: MidiBinding) => void;
+  /** Handles each CC that isn't being learned. */
+  onControlChange: (change: ControlChange) => void;
+}
+
+/**
+ * Learns CCs for a component's controls, keyed by what they control, and
+ * switches them in and out of omni. While a control is learning, the next CC
+ * binds to it rather than reaching `onControlChange`.
+ */
+export class MidiLearnController<K extends string> implements ReactiveController {
+  private readonly host: ReactiveControllerHost;
+  private readonly options: MidiLearnOptions<K>;
+
+  private dispatcher: MidiDispatcher | null = null;
+  private learningKey: K | null = null;
+
+  /** The channel to go back to when each binding is switched out of omni. */
+  private readonly lastChannels = new Map<K, number>();
+
+  constructor(host: ReactiveControllerHost, options: MidiLearnOptions<K>) {
+    this.host = host;
+    this.options = options;
+    this.handleControlChange = this.handleControlChange.bind(this);
+    host.addController(this);
+  }
+
+  /** The control waiting for a CC, if any. */
+  get learning(): K | null {
+    return this.learningKey;
+  }
+
+  set learning(key: K | null) {
+    this.learningKey = key;
+    this.host.requestUpdate();
+  }
+
+  hostConnected() {
+    this.dispatcher = this.options.dispatcher();
+    this.dispatcher?.addEventListener('cc-message', this.handleControlChange);
+  }
+
+  hostDisconnected() {
+    this.dispatcher?.removeEventListener('cc-message', this.handleControlChange);
+    this.dispatcher = null;
+  }
+
+  toggleLearn(key: K) {
+    this.learning = this.learning === key ? null : key;
+  }
+
+  toggleOmni(key: K) {
+    const { cc, channel } = this.options.binding(key);
+    const lastChannel = this.lastChannels.get(key) ?? 0;
+    if (channel !== null) this.lastChannels.set(key, channel);
+    this.options.setBinding(key, { cc, channel: channel === null ? lastChannel : null });
+  }
+
+  /** What the control's CC shows: its binding, or that it's learning. */
+  label(key: K) {
+    return this.learning === key ? 'Learn' : formatBinding(this.options.binding(key));
+  }
+
+  private handleControlChange(e: Event) {
+    const change = (e as CustomEvent<ControlChange>).detail;
+    const key = this.learning;
+    if (key === null) {
+      this.options.onControlChange(change);
+      return;
+    }
+    this.learning = null;
+    this.options.setBinding(key, { cc: change.cc, channel: change.channel });
+  }
+}
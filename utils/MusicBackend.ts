@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { WeightedPrompt } from '@google/genai';
+import type { GenerationConfig } from '../types';
+
+/** Every backend streams 16-bit interleaved PCM at this rate. */
+export const BACKEND_SAMPLE_RATE = 48000;
+export const BACKEND_CHANNELS = 2;
+
+/**
+ * A chunk of that PCM, as bytes or still in base64, which is left for the
+ * decode worker so it stays off the main thread.
+ */
+export type PcmData = Uint8Array | string;
+
+/**
+ * Something that generates music from weighted prompts.
+ *
+ * Backends dispatch `audio-chunk` with the `PcmData` of each generated
+ * chunk, `filtered-prompt` with a `LiveMusicFilteredPrompt` when a prompt is
+ * rejected, and `connection-lost` when the connection errors or closes. A connection that was replaced by
+ * `connect` or dropped by `disconnect` dispatches nothing more.
+ */
+export interface MusicBackend extends EventTarget {
+  /** Opens a new connection, replacing any current one. */
+  connect(): Promise<void>;
+  /** Drops the current connection. */
+  disconnect(): void;
+  setWeightedPrompts(prompts: WeightedPrompt[]): Promise<void>;
+  setConfig(config: GenerationConfig): Promise<void>;
+  /** Starts the music over from the current prompts and config. */
+  resetContext(): void;
+  play(): void;
+  pause(): void;
+  /** Stops the music and ends the connection; `connect` again to restart. */
+  stop(): void;
+}
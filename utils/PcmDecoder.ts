@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decodePcm } from './audio';
+import type { DecodedPcm } from './audio';
+import type { PcmData } from './MusicBackend';
+
+/** Decodes each chunk posted to it and posts the buffers straight back. */
+const DECODE_WORKER = `
+const decodePcm = ${decodePcm.toString()};
+
+self.onmessage = (e) => {
+  try {
+    const { pcm, channels } = decodePcm(e.data.data, e.data.numChannels);
+    self.postMessage({ pcm, channels }, [pcm.buffer, ...channels.map((channel) => channel.buffer)]);
+  } catch (error) {
+    self.postMessage({ error: error.message });
+  }
+};
+`;
+
+let decodeWorkerUrl: string | null = null;
+
+interface PendingDecode {
+  resolve: (decoded: DecodedPcm) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Decodes PCM chunks in a worker, handing the buffers over rather than
+ * copying them. Chunks are decoded in the order they're sent.
+ */
+export class PcmDecoder {
+  private worker!: Worker;
+  private readonly numChannels: number;
+  private pending: PendingDecode[] = [];
+
+  constructor(numChannels: number) {
+    this.numChannels = numChannels;
+    if (!decodeWorkerUrl) {
+      decodeWorkerUrl = URL.createObjectURL(new Blob([DECODE_WORKER], { type: 'text/javascript' }));
+    }
+    this.startWorker();
+  }
+
+  private startWorker() {
+    this.worker = new Worker(decodeWorkerUrl!);
+    this.worker.onmessage = (e: MessageEvent<DecodedPcm | { error: string }>) => {
+      const pending = this.pending.shift();
+      if ('error' in e.data) {
+        pending?.reject(new Error(e.data.error));
+      } else {
+        pending?.resolve(e.data);
+      }
+    };
+    // The chunks it held are lost, so their decodes fail and a fresh worker takes over.
+    this.worker.onerror = (e: ErrorEvent) => {
+      const lost = this.pending;
+      this.pending = [];
+      this.worker.terminate();
+      this.startWorker();
+      for (const { reject } of lost) reject(new Error(e.message || 'The decode worker failed.'));
+    };
+  }
+
+  /** Decodes a chunk. Raw bytes are handed over to the worker, leaving them empty here. */
+  decode(data: PcmData): Promise<DecodedPcm> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      const transfer = typeof data === 'string' ? [] : [data.buffer as ArrayBuffer];
+      this.worker.postMessage({ data, numChannels: this.numChannels }, transfer);
+    });
+  }
+}
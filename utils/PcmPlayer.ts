@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PlaybackRing } from './PlaybackRing';
+import type { PlayerEvent, PlayerMessage } from './PlaybackRing';
+
+/** How much the ring holds before it has to grow, in seconds. */
+const INITIAL_CAPACITY_SECONDS = 16;
+
+/** Plays from a `PlaybackRing` on the audio thread. */
+const PLAYER_PROCESSOR = `
+const PlaybackRing = ${PlaybackRing.toString()};
+
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { numChannels, capacity, target, fadeFrames } = options.processorOptions;
+    this.ring = new PlaybackRing(numChannels, capacity, target, fadeFrames);
+    this.port.onmessage = (e) => {
+      const event = this.ring.receive(e.data);
+      if (event) this.port.postMessage(event);
+    };
+  }
+
+  process(inputs, outputs) {
+    const event = this.ring.render(outputs[0]);
+    if (event) this.port.postMessage(event);
+    return true;
+  }
+}
+registerProcessor('pcm-player', PcmPlayerProcessor);
+`;
+
+let playerModuleUrl: string | null = null;
+
+/**
+ * Plays PCM from a ring buffer in an AudioWorklet, so the audio keeps going
+ * however busy the main thread gets. Dispatches `started` once enough is
+ * buffered to play, `underrun` when it runs dry, and `buffered` with the
+ * seconds buffered after each push.
+ */
+export class PcmPlayer extends EventTarget {
+  private readonly context: AudioContext;
+  private readonly numChannels: number;
+  private readonly fadeSeconds: number;
+  private target: number;
+  private node: AudioWorkletNode | null = null;
+  private loadPromise: Promise<AudioWorkletNode> | null = null;
+
+  /** `target` is how many seconds to buffer before playing; `fadeSeconds` is the fade when it runs dry. */
+  constructor(context: AudioContext, numChannels: number, target: number, fadeSeconds: number) {
+    super();
+    this.context = context;
+    this.numChannels = numChannels;
+    this.target = target;
+    this.fadeSeconds = fadeSeconds;
+  }
+
+  /** Loads the worklet the first time, resolving with the node to connect. */
+  load(): Promise<AudioWorkletNode> {
+    this.loadPromise ??= this.createNode().catch((e) => {
+      // Let the next play try again.
+      this.loadPromise = null;
+      throw e;
+    });
+    return this.loadPromise;
+  }
+
+  private async createNode() {
+    if (!playerModuleUrl) {
+      playerModuleUrl = URL.createObjectURL(new Blob([PLAYER_PROCESSOR], { type: 'text/javascript' }));
+    }
+    await this.context.audioWorklet.addModule(playerModuleUrl);
+    const node = new AudioWorkletNode(this.context, 'pcm-player', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [this.numChannels],
+      processorOptions: {
+        numChannels: this.numChannels,
+        capacity: Math.round(INITIAL_CAPACITY_SECONDS * this.context.sampleRate),
+        target: this.toFrames(this.target),
+        fadeFrames: this.toFrames(this.fadeSeconds),
+      },
+    });
+    node.port.onmessage = (e: MessageEvent<PlayerEvent>) => {
+      const event = e.data;
+      if (event.type === 'buffered') {
+        this.dispatchEvent(new CustomEvent<number>('buffered', { detail: event.frames / this.context.sampleRate }));
+      } else {
+        this.dispatchEvent(new CustomEvent(event.type));
+      }
+    };
+    this.node = node;
+    return node;
+  }
+
+  /** Queues one Float32Array per channel, handing them over to the audio thread. */
+  push(channels: Float32Array[]) {
+    this.post({ type: 'push', channels }, channels.map((channel) => channel.buffer as ArrayBuffer));
+  }
+
+  /** Sets how many seconds to buffer before starting, or starting again after running dry. */
+  setTarget(seconds: number) {
+    if (seconds === this.target) return;
+    this.target = seconds;
+    this.post({ type: 'target', frames: this.toFrames(seconds) });
+  }
+
+  /** Fades out over `fadeSeconds` and drops whatever is left. */
+  stop(fadeSeconds: number) {
+    this.post({ type: 'stop', fadeFrames: this.toFrames(fadeSeconds) });
+  }
+
+  private post(message: PlayerMessage, transfer: Transferable[] = []) {
+    this.node?.port.postMessage(message, transfer);
+  }
+
+  private toFrames(seconds: number) {
+    return Math.round(seconds * this.context.sampleRate);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** What the main thread sends the player. */
+export type PlayerMessage =
+  | { type: 'push'; channels: Float32Array[] }
+  | { type: 'target'; frames: number }
+  | { type: 'stop'; fadeFrames: number };
+
+/** What the player sends back. */
+export type PlayerEvent =
+  | { type: 'started' }
+  | { type: 'underrun' }
+  | { type: 'buffered'; frames: number };
+
+/**
+ * The ring buffer the player worklet plays from. It holds back until
+ * `target` frames are buffered, fades in, and plays until it runs dry. The
+ * last `fadeFrames` before it runs dry fade out, and fade back in if more
+ * arrives in time.
+ *
+ * It's loaded into the worklet from its source, so it mustn't refer to
+ * anything outside itself.
+ */
+export class PlaybackRing {
+  private channels: Float32Array[];
+  private capacity: number;
+  private readIndex = 0;
+  private buffered = 0;
+  private target: number;
+  private readonly fadeFrames: number;
+  private playing = false;
+  private gain = 0;
+  /** The frames left before a stop goes quiet, or null when not stopping. */
+  private stopFrames: number | null = null;
+
+  constructor(numChannels: number, capacity: number, target: number, fadeFrames: number) {
+    this.channels = Array.from({ length: numChannels }, () => new Float32Array(capacity));
+    this.capacity = capacity;
+    this.target = target;
+    this.fadeFrames = Math.max(1, fadeFrames);
+  }
+
+  receive(message: PlayerMessage): PlayerEvent | null {
+    switch (message.type) {
+      case 'push':
+        this.push(message.channels);
+        return { type: 'buffered', frames: this.buffered };
+      case 'target':
+        this.target = message.frames;
+        return null;
+      case 'stop':
+        if (this.playing && message.fadeFrames > 0) {
+          // Only the fade is left to play; anything pushed from here on waits for the next start.
+          this.buffered = Math.min(this.buffered, message.fadeFrames);
+          this.stopFrames = this.buffered;
+        } else {
+          this.buffered = 0;
+          this.playing = false;
+        }
+        return null;
+    }
+  }
+
+  /** Fills a block of output, returning what happened to playback if anything did. */
+  render(output: Float32Array[]): PlayerEvent | null {
+    let event: PlayerEvent | null = null;
+    if (!this.playing && this.buffered > 0 && this.buffered >= this.target) {
+      this.playing = true;
+      this.gain = 0;
+      event = { type: 'started' };
+    }
+    const length = output[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      if (!this.playing) {
+        for (const channel of output) channel[i] = 0;
+        continue;
+      }
+      const framesLeft = this.stopFrames ?? this.buffered;
+      const goal = Math.min(1, framesLeft / this.fadeFrames);
+      this.gain = goal < this.gain ? goal : Math.min(goal, this.gain + 1 / this.fadeFrames);
+      for (let c = 0; c < output.length; c++) {
+        const channel = this.channels[Math.min(c, this.channels.length - 1)];
+        output[c][i] = channel[this.readIndex] * this.gain;
+      }
+      this.readIndex = (this.readIndex + 1) % this.capacity;
+      this.buffered--;
+      if (this.stopFrames !== null) this.stopFrames--;
+      if (this.stopFrames === 0) {
+        this.stopFrames = null;
+        this.playing = false;
+      } else if (this.buffered === 0) {
+        this.playing = false;
+        event = { type: 'underrun' };
+      }
+    }
+    return event;
+  }
+
+  private push(channels: Float32Array[]) {
+    const frames = channels[0]?.length ?? 0;
+    if (this.buffered + frames > this.capacity) this.grow(this.buffered + frames);
+    const writeIndex = (this.readIndex + this.buffered) % this.capacity;
+    const untilWrap = Math.min(frames, this.capacity - writeIndex);
+    this.channels.forEach((ring, c) => {
+      const data = channels[c] ?? channels[0];
+      ring.set(data.subarray(0, untilWrap), writeIndex);
+      ring.set(data.subarray(untilWrap), 0);
+    });
+    this.buffered += frames;
+  }
+
+  /** Makes room for at least `frames`, unwrapping what's buffered to the start. */
+  private grow(frames: number) {
+    const capacity = Math.max(frames, this.capacity * 2);
+    this.channels = this.channels.map((ring) => {
+      const grown = new Float32Array(capacity);
+      const head = ring.subarray(this.readIndex, Math.min(this.capacity, this.readIndex + this.buffered));
+      grown.set(head);
+      grown.set(ring.subarray(0, this.buffered - head.length), head.length);
+      return grown;
+    });
+    this.capacity = capacity;
+    this.readIndex = 0;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DeckControl, EffectParam, GenerationParam, MidiBinding, Prompt } from '../types';
+
+/** How many steps are kept before the oldest is dropped. */
+const DEFAULT_LIMIT = 100;
+
+/** Changes to the same thing closer together than this merge into one step. */
+const DEFAULT_COALESCE_MS = 500;
+
+/**
+ * What each step of the history holds: the prompts, and the CCs of the
+ * generation params, deck controls and effects, since learning a prompt's CC
+ * can move them.
+ */
+export interface DeckState {
+  prompts: Map<string, Prompt>;
+  params: Map<GenerationParam, MidiBinding>;
+  controls: Map<DeckControl, MidiBinding>;
+  effects: Map<EffectParam, MidiBinding>;
+}
+
+/**
+ * A bounded undo/redo history of the prompts and CCs.
+ *
+ * Each step is a snapshot taken after a change. Changes recorded with the same
+ * key, each within the coalescing window of the last, replace the previous
+ * step rather than adding one, so sweeping a knob undoes in one go.
+ */
+export class PromptHistory {
+  private readonly limit: number;
+  private readonly coalesceMs: number;
+
+  private past: DeckState[] = [];
+  private present: DeckState;
+  private future: DeckState[] = [];
+
+  private lastKey: string | null = null;
+  private lastTime = -Infinity;
+
+  constructor(state: DeckState, limit = DEFAULT_LIMIT, coalesceMs = DEFAULT_COALESCE_MS) {
+    this.present = snapshot(state);
+    this.limit = limit;
+    this.coalesceMs = coalesceMs;
+  }
+
+  get canUndo() {
+    return this.past.length > 0;
+  }
+
+  get canRedo() {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Records the deck as it is after a change. A null key never coalesces,
+   * and a change that leaves everything as it was isn't recorded.
+   */
+  record(state: DeckState, key: string | null = null) {
+    if (isSame(state, this.present)) return;
+    const now = performance.now();
+    const coalescing = key !== null && key === this.lastKey && now - this.lastTime < this.coalesceMs;
+    if (!coalescing) {
+      this.past.push(this.present);
+      if (this.past.length > this.limit) this.past.shift();
+    }
+    this.present = snapshot(state);
+    this.future = [];
+    this.lastKey = key;
+    this.lastTime = now;
+  }
+
+  /**
+   * Takes the deck as it is after a change that isn't undoable, such as
+   * automation replay, without adding a step or forgetting the redo steps.
+   */
+  follow(state: DeckState) {
+    this.present = snapshot(state);
+    this.lastKey = null;
+  }
+
+  /** Steps back, returning the deck to restore, or null at the start. */
+  undo(): DeckState | null {
+    const previous = this.past.pop();
+    if (!previous) return null;
+    this.future.push(this.present);
+    return this.restore(previous);
+  }
+
+  /** Steps forward again, returning the deck to restore, or null at the end. */
+  redo(): DeckState | null {
+    const next = this.future.pop();
+    if (!next) return null;
+    this.past.push(this.present);
+    return this.restore(next);
+  }
+
+  private restore(state: DeckState) {
+    this.present = state;
+    // Whatever comes next is a new step, even if it touches the same knob.
+    this.lastKey = null;
+    return snapshot(state);
+  }
+}
+
+function isSame(a: DeckState, b: DeckState) {
+  const entries = ({ prompts, params, controls, effects }: DeckState) =>
+    [prompts, params, controls, effects].map((map) => [...map]);
+  return JSON.stringify(entries(a)) === JSON.stringify(entries(b));
+}
+
+/** Copies the deck, whose prompts and bindings are edited in place, so a step can't change later. */
+function snapshot(state: DeckState): DeckState {
+  return structuredClone(state);
+}
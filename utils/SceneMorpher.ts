@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * How often a morph steps. Unlike animation frames, timers keep firing in a
+ * background tab, if less often, and each step catches up with the clock.
+ */
+const STEP_MS = 20;
+
+/** Smooths the start and end of a morph. */
+function easeInOut(t: number) {
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+/**
+ * Simple class for morphing prompt weights towards a scene over time.
+ * Dispatches `morph-progress` with the interpolated weights at every step
+ * and `morph-ended` when the morph completes or is cancelled.
+ */
+export class SceneMorpher extends EventTarget {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private from = new Map<string, number>();
+  private to = new Map<string, number>();
+  private startTime = 0;
+  private duration = 0;
+
+  constructor() {
+    super();
+    this.loop = this.loop.bind(this);
+  }
+
+  get morphing() {
+    return this.timer !== null;
+  }
+
+  /**
+   * Starts morphing from `from` to `to` over `durationMs`. Calling this while
+   * a morph is running retargets it from wherever `from` says it has reached.
+   * Prompts missing from `to` are left alone.
+   */
+  morph(from: Map<string, number>, to: Map<string, number>, durationMs: number) {
+    this.from = new Map(from);
+    this.to = new Map(to);
+    this.startTime = performance.now();
+    this.duration = Math.max(0, durationMs);
+    if (this.timer === null) this.loop();
+  }
+
+  cancel() {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.dispatchEvent(new CustomEvent('morph-ended', { detail: { completed: false } }));
+  }
+
+  private loop() {
+    const elapsed = performance.now() - this.startTime;
+    const t = this.duration === 0 ? 1 : Math.min(1, elapsed / this.duration);
+    const eased = easeInOut(t);
+    const weights = new Map<string, number>();
+    for (const [id, target] of this.to) {
+      const start = this.from.get(id) ?? target;
+      weights.set(id, start + (target - start) * eased);
+    }
+    this.dispatchEvent(new CustomEvent<Map<string, number>>('morph-progress', { detail: weights }));
+    if (t < 1) {
+      this.timer = setTimeout(this.loop, STEP_MS);
+    } else {
+      this.timer = null;
+      this.dispatchEvent(new CustomEvent('morph-ended', { detail: { completed: true } }));
+    }
+  }
+}
+
+/** Converts a length in bars of 4/4 to milliseconds at a tempo. */
+export function barsToMs(bars: number, bpm: number) {
+  return (bars * 4 * 60 * 1000) / bpm;
+}
@@ -38,37 +38,92 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
+/** 16-bit interleaved PCM, along with the same samples split by channel. */
+interface DecodedPcm {
+  pcm: Int16Array;
+  channels: Float32Array[];
+}
 
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
+/**
+ * Decodes base64 or raw 16-bit interleaved PCM, scaling each channel to the
+ * -1 to 1 range. It runs in the decode worker from its source, so it mustn't
+ * refer to anything outside itself.
+ */
+function decodePcm(data: string | Uint8Array, numChannels: number): DecodedPcm {
+  if (numChannels < 1) {
+    throw new RangeError(`Can't decode PCM with ${numChannels} channels.`);
   }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
+  let bytes = data as Uint8Array;
+  if (typeof data === 'string') {
+    const binaryString = atob(data);
+    bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
     }
+  } else if (data.byteOffset % 2 !== 0) {
+    bytes = data.slice();
   }
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+  const frames = Math.floor(pcm.length / numChannels);
+  const channels = Array.from({length: numChannels}, () => new Float32Array(frames));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = pcm[i * numChannels + c] / 32768;
+    }
+  }
+  return {pcm, channels};
+}
 
-  return buffer;
+/** Interleaves equally long channels of float samples into 16-bit PCM. */
+function float32ToInterleavedInt16(channels: Float32Array[]): Int16Array {
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const int16 = new Int16Array(length * numChannels);
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      int16[i * numChannels + c] = sample < 0 ? sample * 32768 : sample * 32767;
+    }
+  }
+  return int16;
+}
+
+/** Wraps interleaved 16-bit PCM chunks in a WAV file. */
+function encodeWav(
+  chunks: Int16Array[],
+  sampleRate: number,
+  numChannels: number,
+): globalThis.Blob {
+  const dataLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * numChannels * 2, true);
+  header.setUint16(32, numChannels * 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, dataLength, true);
+  return new globalThis.Blob([header, ...chunks], {type: 'audio/wav'});
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {
+  createBlob,
+  decode,
+  decodePcm,
+  encode,
+  encodeWav,
+  float32ToInterleavedInt16,
+};
+
+export type {DecodedPcm};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+export interface CoalescingSender<T> {
+  /** Queues a value and resolves once it, or a newer one, has been sent. */
+  (value: T): Promise<void>;
+  /** Forgets the last send, so the next value goes out right away even if unchanged. */
+  reset(): void;
+}
+
+/**
+ * Wraps an async `send` so that rapid updates coalesce. Only one send is in
+ * flight at a time and sends start at least `interval` milliseconds apart.
+ * Values queued in between replace each other, so the latest one is always
+ * delivered last, and a value equal to the last one sent is skipped.
+ */
+export function coalesce<T>(
+  send: (value: T) => Promise<void>,
+  interval: number,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+): CoalescingSender<T> {
+  let pending: { value: T } | null = null;
+  let last: { value: T } | null = null;
+  let lastSendTime = -Infinity;
+  let draining = false;
+  let drained: Promise<void> = Promise.resolve();
+
+  async function drain() {
+    draining = true;
+    try {
+      while (pending) {
+        if (last && isEqual(last.value, pending.value)) {
+          pending = null;
+          continue;
+        }
+        const wait = lastSendTime + interval - Date.now();
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+        const { value } = pending!;
+        pending = null;
+        if (last && isEqual(last.value, value)) continue;
+        last = { value };
+        lastSendTime = Date.now();
+        await send(value);
+      }
+    } finally {
+      draining = false;
+    }
+  }
+
+  const sender = (value: T) => {
+    pending = { value };
+    if (!draining) drained = drain();
+    return drained;
+  };
+  sender.reset = () => {
+    last = null;
+    lastSendTime = -Infinity;
+  };
+  return sender;
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CrossfadeCurve } from '../types';
+
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ['linear', 'constant-power', 'cut'];
+
+/** How far from its edge of the fader each side reaches full gain on `cut`. */
+const CUT_ZONE = 0.05;
+
+/** Returns the gains of scene A and scene B at a fader position from 0 to 1. */
+export function crossfadeGains(position: number, curve: CrossfadeCurve): [number, number] {
+  const x = Math.max(0, Math.min(1, position));
+  switch (curve) {
+    case 'linear':
+      return [1 - x, x];
+    case 'constant-power':
+      return [Math.cos((x * Math.PI) / 2), Math.sin((x * Math.PI) / 2)];
+    case 'cut':
+      return [x >= 1 - CUT_ZONE ? 0 : 1, x <= CUT_ZONE ? 0 : 1];
+  }
+}
+
+/**
+ * Blends two weight snapshots keyed by prompt id. A prompt missing from one
+ * snapshot counts as silent in it.
+ */
+export function crossfadeWeights(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  position: number,
+  curve: CrossfadeCurve,
+): Map<string, number> {
+  const [gainA, gainB] = crossfadeGains(position, curve);
+  const weights = new Map<string, number>();
+  for (const id of new Set([...a.keys(), ...b.keys()])) {
+    const weight = (a.get(id) ?? 0) * gainA + (b.get(id) ?? 0) * gainB;
+    weights.set(id, Math.min(2, weight));
+  }
+  return weights;
+}
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Debounces a callback so it is only called once calls have stopped for
+ * `delay` milliseconds, with the arguments of the last call.
+ */
+export function debounce<T extends (...args: Parameters<T>) => void>(
+  func: T,
+  delay: number,
+): (...args: Parameters<T>) => void {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  return (...args: Parameters<T>) => {
+    if (timeout !== null) clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timeout = null;
+      func(...args);
+    }, delay);
+  };
+}
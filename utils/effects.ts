@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EffectId, EffectParam, EffectSettings, MidiBinding } from '../types';
+
+/** Describes how an effect parameter is presented and controlled. */
+export interface EffectParamSpec {
+  param: EffectParam;
+  effect: EffectId;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  fallback: number;
+  /** The CC the param listens to until another one is learned. */
+  cc: number;
+}
+
+export const EFFECTS: { id: EffectId; label: string }[] = [
+  { id: 'filter', label: 'Filter' },
+  { id: 'eq', label: 'EQ' },
+  { id: 'delay', label: 'Delay' },
+  { id: 'reverb', label: 'Reverb' },
+];
+
+/** Delay times as note lengths, in beats. */
+export const DELAY_DIVISIONS = [
+  { label: '1/16', beats: 0.25 },
+  { label: '1/8', beats: 0.5 },
+  { label: '1/8.', beats: 0.75 },
+  { label: '1/4', beats: 1 },
+  { label: '1/4.', beats: 1.5 },
+  { label: '1/2', beats: 2 },
+];
+
+export const EFFECT_PARAMS: EffectParamSpec[] = [
+  // Below the middle the filter is a low-pass, above it a high-pass.
+  { param: 'filterCutoff', effect: 'filter', label: 'Cutoff', min: -1, max: 1, step: 0.01, fallback: 0, cc: 24 },
+  { param: 'filterResonance', effect: 'filter', label: 'Resonance', min: 0.5, max: 15, step: 0.1, fallback: 1, cc: 25 },
+  { param: 'filterMix', effect: 'filter', label: 'Mix', min: 0, max: 1, step: 0.01, fallback: 1, cc: 26 },
+  { param: 'eqLow', effect: 'eq', label: 'Low', min: -24, max: 6, step: 0.5, fallback: 0, cc: 27 },
+  { param: 'eqMid', effect: 'eq', label: 'Mid', min: -24, max: 6, step: 0.5, fallback: 0, cc: 28 },
+  { param: 'eqHigh', effect: 'eq', label: 'High', min: -24, max: 6, step: 0.5, fallback: 0, cc: 29 },
+  { param: 'eqMix', effect: 'eq', label: 'Mix', min: 0, max: 1, step: 0.01, fallback: 1, cc: 30 },
+  { param: 'delayDivision', effect: 'delay', label: 'Time', min: 0, max: DELAY_DIVISIONS.length - 1, step: 1, fallback: 2, cc: 31 },
+  { param: 'delayFeedback', effect: 'delay', label: 'Feedback', min: 0, max: 0.9, step: 0.01, fallback: 0.35, cc: 32 },
+  { param: 'delayMix', effect: 'delay', label: 'Mix', min: 0, max: 1, step: 0.01, fallback: 0.3, cc: 33 },
+  { param: 'reverbSize', effect: 'reverb', label: 'Size', min: 0.5, max: 6, step: 0.1, fallback: 2, cc: 34 },
+  { param: 'reverbMix', effect: 'reverb', label: 'Mix', min: 0, max: 1, step: 0.01, fallback: 0.25, cc: 35 },
+];
+
+/** Every effect bypassed, with its params at their defaults. */
+export function defaultEffectSettings(): EffectSettings {
+  return {
+    bypassed: { filter: true, eq: true, delay: true, reverb: true },
+    params: Object.fromEntries(EFFECT_PARAMS.map((spec) => [spec.param, spec.fallback])) as Record<EffectParam, number>,
+  };
+}
+
+/** The bindings effect params listen to before any are learned. */
+export function defaultEffectBindings(): Map<EffectParam, MidiBinding> {
+  return new Map(EFFECT_PARAMS.map((spec) => [spec.param, { cc: spec.cc, channel: null }]));
+}
+
+/** Snaps a value onto the range and step of a param. */
+export function snapEffectParam(spec: EffectParamSpec, value: number): number {
+  const clamped = Math.max(spec.min, Math.min(spec.max, value));
+  return Number((Math.round(clamped / spec.step) * spec.step).toFixed(2));
+}
+
+/** Returns a readable label for the value of a param. */
+export function formatEffectParam(spec: EffectParamSpec, value: number): string {
+  switch (spec.param) {
+    case 'filterCutoff':
+      if (value === 0) return 'Open';
+      return `${value < 0 ? 'LP' : 'HP'} ${Math.round(Math.abs(value) * 100)}%`;
+    case 'filterResonance':
+      return `Q ${value.toFixed(1)}`;
+    case 'eqLow':
+    case 'eqMid':
+    case 'eqHigh':
+      return `${value > 0 ? '+' : ''}${value} dB`;
+    case 'delayDivision':
+      return DELAY_DIVISIONS[value]?.label ?? '';
+    case 'reverbSize':
+      return `${value.toFixed(1)} s`;
+    default:
+      return `${Math.round(value * 100)}%`;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Scale } from '@google/genai';
+import type { GenerationConfig, GenerationParam, MidiBinding } from '../types';
+
+/** Describes how a generation param is presented and controlled. */
+export interface GenerationParamSpec {
+  param: GenerationParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** The position shown while the param is unset and the model picks. */
+  fallback: number;
+  /** The param only takes effect after the session context is reset. */
+  requiresReset: boolean;
+  /** The CC the param listens to until another one is learned. */
+  cc: number;
+}
+
+/** Scales in the order they are laid out on a slider or a CC sweep. */
+export const SCALES: Scale[] = Object.values(Scale).filter(
+  (scale) => scale !== Scale.SCALE_UNSPECIFIED,
+);
+
+export const GENERATION_PARAMS: GenerationParamSpec[] = [
+  { param: 'bpm', label: 'BPM', min: 60, max: 200, step: 1, fallback: 120, requiresReset: true, cc: 16 },
+  { param: 'scale', label: 'Scale', min: 0, max: SCALES.length - 1, step: 1, fallback: 0, requiresReset: true, cc: 17 },
+  { param: 'density', label: 'Density', min: 0, max: 1, step: 0.01, fallback: 0.5, requiresReset: false, cc: 18 },
+  { param: 'brightness', label: 'Brightness', min: 0, max: 1, step: 0.01, fallback: 0.5, requiresReset: false, cc: 19 },
+  { param: 'guidance', label: 'Guidance', min: 0, max: 6, step: 0.1, fallback: 4, requiresReset: false, cc: 20 },
+  { param: 'temperature', label: 'Temperature', min: 0, max: 3, step: 0.1, fallback: 1.1, requiresReset: false, cc: 21 },
+  { param: 'seed', label: 'Seed', min: 0, max: 127, step: 1, fallback: 0, requiresReset: false, cc: 22 },
+];
+
+/** Params that need a context reset before the model picks them up. */
+export const RESET_CONTEXT_PARAMS = GENERATION_PARAMS
+  .filter((spec) => spec.requiresReset)
+  .map((spec) => spec.param);
+
+/** The bindings params listen to before any are learned. */
+export function defaultParamBindings(): Map<GenerationParam, MidiBinding> {
+  return new Map(GENERATION_PARAMS.map((spec) => [spec.param, { cc: spec.cc, channel: null }]));
+}
+
+/** The tempo to count bars at, falling back to the slider default on auto. */
+export function effectiveBpm(config: GenerationConfig): number {
+  return config.bpm ?? GENERATION_PARAMS.find((spec) => spec.param === 'bpm')!.fallback;
+}
+
+/** Returns the numeric position of a param, as shown on a slider. */
+export function getParamPosition(config: GenerationConfig, spec: GenerationParamSpec): number {
+  const value = config[spec.param];
+  if (value === undefined) return spec.fallback;
+  if (spec.param === 'scale') return Math.max(0, SCALES.indexOf(value as Scale));
+  return value as number;
+}
+
+/** Returns a copy of `config` with the param set from a slider position. */
+export function setParamPosition(
+  config: GenerationConfig,
+  spec: GenerationParamSpec,
+  position: number,
+): GenerationConfig {
+  const clamped = Math.max(spec.min, Math.min(spec.max, position));
+  const snapped = Math.round(clamped / spec.step) * spec.step;
+  const value = spec.param === 'scale'
+    ? SCALES[snapped]
+    : Number(snapped.toFixed(2));
+  return { ...config, [spec.param]: value };
+}
+
+/** Maps a 0-127 CC value onto the range of a param. */
+export function ccValueToPosition(spec: GenerationParamSpec, value: number): number {
+  return spec.min + (value / 127) * (spec.max - spec.min);
+}
+
+/** Returns a readable label for the current value of a param. */
+export function formatParam(config: GenerationConfig, spec: GenerationParamSpec): string {
+  const value = config[spec.param];
+  if (value === undefined) return 'Auto';
+  if (spec.param === 'scale') {
+    return (value as string)
+      .split('_')
+      .map((word) => word === 'FLAT' ? 'b' : word.charAt(0) + word.slice(1).toLowerCase())
+      .join(' ')
+      .replace(/ b/g, 'b');
+  }
+  return String(value);
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { KeyCommand } from '../types';
+
+const STORAGE_KEY = 'promptdj-midi.key-bindings';
+
+/** How far a nudge or a wheel notch moves a weight, and how far with shift held. */
+export const NUDGE_STEP = 0.1;
+export const FINE_NUDGE_STEP = 0.01;
+
+/** Commands that act on the deck rather than on a slot, in the order the overlay lists them. */
+export const DECK_KEY_COMMANDS: KeyCommand[] = [
+  'play-pause',
+  'select-previous',
+  'select-next',
+  'nudge-up',
+  'nudge-down',
+  'show-keys',
+];
+
+export const DECK_KEY_COMMAND_LABELS: Record<string, string> = {
+  'play-pause': 'Play / pause',
+  'select-previous': 'Select previous prompt',
+  'select-next': 'Select next prompt',
+  'nudge-up': 'Raise selected weight',
+  'nudge-down': 'Lower selected weight',
+  'show-keys': 'Show key bindings',
+};
+
+/** Number row keys select the first ten slots, and the letters below them toggle those slots. */
+const SELECT_KEYS = ['Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0'];
+const TOGGLE_KEYS = ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP'];
+
+const SLOT_COMMAND = /^(select|toggle)-(\d+)$/;
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+};
+
+/**
+ * The bindings the deck starts with. Keys are `KeyboardEvent.code` values,
+ * so they stay on the same physical keys whatever the layout.
+ */
+export function defaultKeyBindings(): Map<KeyCommand, string> {
+  const bindings = new Map<KeyCommand, string>([
+    ['play-pause', 'Space'],
+    ['select-previous', 'ArrowLeft'],
+    ['select-next', 'ArrowRight'],
+    ['nudge-up', 'ArrowUp'],
+    ['nudge-down', 'ArrowDown'],
+    ['show-keys', 'Slash'],
+  ]);
+  SELECT_KEYS.forEach((code, slot) => bindings.set(`select-${slot}`, code));
+  TOGGLE_KEYS.forEach((code, slot) => bindings.set(`toggle-${slot}`, code));
+  return bindings;
+}
+
+function isKeyCommand(value: string): value is KeyCommand {
+  return DECK_KEY_COMMANDS.includes(value as KeyCommand) || SLOT_COMMAND.test(value);
+}
+
+/** Splits a slot command into what it does and the slot it does it to. */
+export function parseSlotCommand(command: KeyCommand): { action: 'select' | 'toggle'; slot: number } | null {
+  const match = SLOT_COMMAND.exec(command);
+  if (!match) return null;
+  return { action: match[1] as 'select' | 'toggle', slot: Number(match[2]) };
+}
+
+/** Returns the command bound to a key, if any. */
+export function findKeyCommand(bindings: Map<KeyCommand, string>, code: string): KeyCommand | null {
+  for (const [command, bound] of bindings) {
+    if (bound === code) return command;
+  }
+  return null;
+}
+
+/**
+ * Returns a copy of the bindings with `code` bound to `command`, taking the
+ * key away from whatever had it. An empty code unbinds the command.
+ */
+export function rebindKey(
+  bindings: Map<KeyCommand, string>,
+  command: KeyCommand,
+  code: string,
+): Map<KeyCommand, string> {
+  const rebound = new Map(bindings);
+  const previous = code ? findKeyCommand(rebound, code) : null;
+  if (previous) rebound.delete(previous);
+  if (code) {
+    rebound.set(command, code);
+  } else {
+    rebound.delete(command);
+  }
+  return rebound;
+}
+
+/** A short label for a key code, like `Q`, `1` or `↑`. */
+export function formatKey(code: string): string {
+  const match = /^(?:Key|Digit)(.)$/.exec(code);
+  if (match) return match[1];
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return KEY_SYMBOLS[code] ?? code;
+}
+
+/** Moves a weight one step up or down, keeping it in range and free of rounding drift. */
+export function nudgeWeight(weight: number, direction: 1 | -1, fine = false): number {
+  const step = fine ? FINE_NUDGE_STEP : NUDGE_STEP;
+  const nudged = Math.round((weight + direction * step) * 100) / 100;
+  return Math.max(0, Math.min(2, nudged));
+}
+
+/** Returns the stored bindings, or the defaults when none were saved. */
+export function loadKeyBindings(): Map<KeyCommand, string> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return defaultKeyBindings();
+  let saved: unknown;
+  try {
+    saved = JSON.parse(stored);
+  } catch (e) {
+    console.error('Discarding unreadable key bindings', e);
+    return defaultKeyBindings();
+  }
+  if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return defaultKeyBindings();
+  const bindings = new Map<KeyCommand, string>();
+  for (const [command, code] of Object.entries(saved)) {
+    if (isKeyCommand(command) && typeof code === 'string' && code) bindings.set(command, code);
+  }
+  return bindings;
+}
+
+export function saveKeyBindings(bindings: Map<KeyCommand, string>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(bindings)));
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DeckControl, EffectParam, GenerationParam, MidiBinding, MidiProfile, NoteBinding } from '../types';
+import { EFFECT_PARAMS } from './effects';
+import { GENERATION_PARAMS } from './generationConfig';
+import { checkFileVersion, isInRange, isRecord, parseJson, validateNoteBinding, ValidationError } from './validation';
+
+/** Bump when the file format changes, and migrate older files in `parseMidiProfile`. */
+export const MIDI_PROFILE_FILE_VERSION = 2;
+
+const STORAGE_KEY = 'promptdj-midi.midi-profiles';
+
+/** The JSON document device profiles are exported as. */
+interface MidiProfileFile {
+  version: number;
+  profile: MidiProfile;
+}
+
+const SUBJECT = 'MIDI profile';
+
+function invalid(message: string) {
+  return new ValidationError(SUBJECT, message);
+}
+
+/**
+ * Validates a map of bindings. Version 1 files stored bare CC numbers, which
+ * matched on any channel, so they are migrated to omni bindings.
+ */
+function validateBindings(value: unknown, field: string, version: number): Record<string, MidiBinding> {
+  if (!isRecord(value)) throw invalid(`${field} must be an object.`);
+  const bindings: Record<string, MidiBinding> = {};
+  for (const [key, binding] of Object.entries(value)) {
+    const { cc, channel } = version === 1 ? { cc: binding, channel: null } : isRecord(binding) ? binding : {};
+    if (!isInRange(cc, 127)) {
+      throw invalid(`${field}.${key}.cc must be an integer from 0 to 127.`);
+    }
+    if (channel !== null && !isInRange(channel, 15)) {
+      throw invalid(`${field}.${key}.channel must be null or an integer from 0 to 15.`);
+    }
+    bindings[key] = { cc: cc as number, channel: channel as number | null };
+  }
+  return bindings;
+}
+
+/** Validates the learned notes, which profiles saved before notes lack. */
+function validateNotes(value: unknown): Record<string, NoteBinding> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw invalid('notes must be an object.');
+  const notes: Record<string, NoteBinding> = {};
+  for (const [key, binding] of Object.entries(value)) {
+    notes[key] = validateNoteBinding(binding, `notes.${key}`, SUBJECT);
+  }
+  return notes;
+}
+
+function validateProfileFile(file: unknown): MidiProfile {
+  const { version, profile } = checkFileVersion(file, SUBJECT, [1, MIDI_PROFILE_FILE_VERSION]);
+  if (!isRecord(profile)) throw invalid('profile must be an object.');
+  if (typeof profile.deviceName !== 'string') {
+    throw invalid('deviceName must be a string.');
+  }
+  const params = validateBindings(profile.params, 'params', version);
+  const knownParams = GENERATION_PARAMS.map((spec) => spec.param as string);
+  const unknownParam = Object.keys(params).find((param) => !knownParams.includes(param));
+  if (unknownParam) throw invalid(`unknown param ${unknownParam}.`);
+  // Profiles saved before the effects chain have none.
+  const effects = profile.effects === undefined ? {} : validateBindings(profile.effects, 'effects', version);
+  const knownEffects = EFFECT_PARAMS.map((spec) => spec.param as string);
+  const unknownEffect = Object.keys(effects).find((param) => !knownEffects.includes(param));
+  if (unknownEffect) throw invalid(`unknown effect param ${unknownEffect}.`);
+  return {
+    deviceName: profile.deviceName,
+    prompts: validateBindings(profile.prompts, 'prompts', version),
+    params: params as Partial<Record<GenerationParam, MidiBinding>>,
+    notes: validateNotes(profile.notes),
+    // Profiles saved before deck controls were mappable have none.
+    controls: profile.controls === undefined
+      ? {}
+      : validateBindings(profile.controls, 'controls', version) as Partial<Record<DeckControl, MidiBinding>>,
+    effects: effects as Partial<Record<EffectParam, MidiBinding>>,
+  };
+}
+
+/** The bindings deck controls listen to before any are learned. */
+export function defaultDeckBindings(): Map<DeckControl, MidiBinding> {
+  return new Map([
+    ['crossfader', { cc: 23, channel: null }],
+    ['undo', { cc: 36, channel: null }],
+    ['redo', { cc: 37, channel: null }],
+  ]);
+}
+
+/** Parses and validates an exported device profile. */
+export function parseMidiProfile(json: string): MidiProfile {
+  return validateProfileFile(parseJson(json, SUBJECT));
+}
+
+/** Serializes a device profile to the versioned file format. */
+export function serializeMidiProfile(profile: MidiProfile): string {
+  const file: MidiProfileFile = { version: MIDI_PROFILE_FILE_VERSION, profile };
+  return JSON.stringify(file, null, 2);
+}
+
+function loadProfiles(): Record<string, MidiProfileFile> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return {};
+  try {
+    const files = JSON.parse(stored);
+    return isRecord(files) ? files as Record<string, MidiProfileFile> : {};
+  } catch (e) {
+    console.error('Discarding unreadable MIDI profiles', e);
+    return {};
+  }
+}
+
+/** Returns the stored profile for a device, if it has one. */
+export function loadMidiProfile(deviceName: string): MidiProfile | null {
+  const file = loadProfiles()[deviceName];
+  if (!file) return null;
+  try {
+    return validateProfileFile(file);
+  } catch (e) {
+    console.error(`Ignoring invalid MIDI profile for ${deviceName}`, e);
+    return null;
+  }
+}
+
+export function saveMidiProfile(profile: MidiProfile) {
+  const profiles = loadProfiles();
+  profiles[profile.deviceName] = { version: MIDI_PROFILE_FILE_VERSION, profile };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function deleteMidiProfile(deviceName: string) {
+  const profiles = loadProfiles();
+  delete profiles[deviceName];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
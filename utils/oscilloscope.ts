@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ScopeCoupling } from '../types';
+
+/** The graticule, in divisions across and down. */
+export const SCOPE_DIVS_X = 10;
+export const SCOPE_DIVS_Y = 8;
+
+/** The detents of the time/div knob, in milliseconds. */
+export const TIME_DIVS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20];
+
+/** The detents of the volts/div knob, in full-scale units. */
+export const VOLTS_DIVS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1];
+
+/** Enough samples at 48 kHz for the slowest sweep. */
+export const SCOPE_FFT_SIZE = 16384;
+
+export function formatTimeDiv(ms: number) {
+  return ms < 1 ? `${ms * 1000} µs` : `${ms} ms`;
+}
+
+export function formatVoltsDiv(volts: number) {
+  return volts < 1 ? `${Math.round(volts * 1000)} mV` : `${volts} V`;
+}
+
+/** Applies the input coupling to a block of samples, in place. */
+export function couple(samples: Float32Array, coupling: ScopeCoupling): Float32Array {
+  switch (coupling) {
+    case 'dc':
+      return samples;
+    case 'gnd':
+      return samples.fill(0);
+    case 'ac': {
+      const mean = samples.reduce((sum, sample) => sum + sample, 0) / (samples.length || 1);
+      for (let i = 0; i < samples.length; i++) samples[i] -= mean;
+      return samples;
+    }
+  }
+}
+
+/**
+ * Finds where a sweep of `length` samples should start so the trace holds
+ * still: the first rising zero crossing that leaves room for the sweep, or
+ * the latest full sweep when there's none.
+ */
+export function findTrigger(samples: Float32Array, length: number): number {
+  const last = samples.length - length;
+  for (let i = 1; i <= last; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) return i;
+  }
+  return Math.max(0, last);
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EffectId, EffectParam, EffectSettings, Preset, PresetPrompt, Prompt } from '../types';
+import { defaultEffectSettings, EFFECT_PARAMS, EFFECTS } from './effects';
+import { checkFileVersion, isInRange, isRecord, parseJson, ValidationError } from './validation';
+
+/** Bump when the file format changes, and migrate older files in `parsePreset`. */
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'promptdj-midi.presets';
+
+/** The JSON document presets are exported as. */
+interface PresetFile {
+  version: number;
+  preset: Preset;
+}
+
+const SUBJECT = 'preset';
+
+function invalid(message: string) {
+  return new ValidationError(SUBJECT, message);
+}
+
+function validatePrompt(value: unknown, index: number): PresetPrompt {
+  const where = `prompts[${index}]`;
+  if (!isRecord(value)) throw invalid(`${where} must be an object.`);
+  const { text, weight, cc, channel = null, color } = value;
+  if (typeof text !== 'string' || text.trim() === '') {
+    throw invalid(`${where}.text must be a non-empty string.`);
+  }
+  if (typeof weight !== 'number' || !(weight >= 0 && weight <= 2)) {
+    throw invalid(`${where}.weight must be a number from 0 to 2.`);
+  }
+  if (!isInRange(cc, 127)) {
+    throw invalid(`${where}.cc must be an integer from 0 to 127.`);
+  }
+  // Presets saved before channels were honored have none, which means omni.
+  if (channel !== null && !isInRange(channel, 15)) {
+    throw invalid(`${where}.channel must be null or an integer from 0 to 15.`);
+  }
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+    throw invalid(`${where}.color must be a hex color like #9900ff.`);
+  }
+  return { text: text.trim(), weight, cc, channel: channel as number | null, color };
+}
+
+/** Validates the effect settings, filling in any param the preset lacks with its default. */
+function validateEffects(value: unknown): EffectSettings {
+  if (!isRecord(value) || !isRecord(value.bypassed) || !isRecord(value.params)) {
+    throw invalid('effects must be an object with bypassed and params.');
+  }
+  const settings = defaultEffectSettings();
+  for (const { id } of EFFECTS) {
+    const bypassed = value.bypassed[id];
+    if (bypassed === undefined) continue;
+    if (typeof bypassed !== 'boolean') throw invalid(`effects.bypassed.${id} must be a boolean.`);
+    settings.bypassed[id as EffectId] = bypassed;
+  }
+  for (const spec of EFFECT_PARAMS) {
+    const param = value.params[spec.param];
+    if (param === undefined) continue;
+    if (typeof param !== 'number' || !(param >= spec.min && param <= spec.max)) {
+      throw invalid(`effects.params.${spec.param} must be a number from ${spec.min} to ${spec.max}.`);
+    }
+    settings.params[spec.param as EffectParam] = param;
+  }
+  return settings;
+}
+
+function validatePreset(value: unknown): Preset {
+  if (!isRecord(value)) throw invalid('preset must be an object.');
+  const { name, prompts, effects } = value;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw invalid('name must be a non-empty string.');
+  }
+  if (!Array.isArray(prompts) || prompts.length === 0) {
+    throw invalid('prompts must be a non-empty array.');
+  }
+  const preset: Preset = { name: name.trim(), prompts: prompts.map(validatePrompt) };
+  if (effects !== undefined) preset.effects = validateEffects(effects);
+  return preset;
+}
+
+function validatePresetFile(file: unknown): Preset {
+  return validatePreset(checkFileVersion(file, SUBJECT, [PRESET_FILE_VERSION]).preset);
+}
+
+/** Parses and validates an exported preset file. */
+export function parsePreset(json: string): Preset {
+  return validatePresetFile(parseJson(json, SUBJECT));
+}
+
+/** Serializes a preset to the versioned file format. */
+export function serializePreset(preset: Preset): string {
+  const file: PresetFile = { version: PRESET_FILE_VERSION, preset };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Captures the current prompt grid and effects as a preset. */
+export function createPreset(name: string, prompts: Map<string, Prompt>, effects: EffectSettings): Preset {
+  return {
+    name,
+    prompts: [...prompts.values()].map(({ text, weight, cc, channel, color }) => ({ text, weight, cc, channel, color })),
+    effects: structuredClone(effects),
+  };
+}
+
+/** Expands a preset back into a prompt map for the grid. */
+export function presetToPrompts(preset: Preset): Map<string, Prompt> {
+  const prompts = new Map<string, Prompt>();
+  preset.prompts.forEach((prompt, i) => {
+    const promptId = `prompt-${i}`;
+    prompts.set(promptId, { promptId, ...prompt, note: null });
+  });
+  return prompts;
+}
+
+/** Returns the presets saved in this browser, sorted by name. */
+export function loadPresets(): Preset[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  let files: unknown;
+  try {
+    files = JSON.parse(stored);
+  } catch (e) {
+    console.error('Discarding unreadable presets', e);
+    return [];
+  }
+  if (!Array.isArray(files)) return [];
+  const presets: Preset[] = [];
+  for (const file of files) {
+    try {
+      presets.push(validatePresetFile(file));
+    } catch (e) {
+      console.error('Skipping invalid stored preset', e);
+    }
+  }
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function storePresets(presets: Preset[]) {
+  const files: PresetFile[] = presets.map((preset) => ({ version: PRESET_FILE_VERSION, preset }));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
+}
+
+/** Saves a preset, replacing any saved preset with the same name. */
+export function savePreset(preset: Preset): Preset[] {
+  const presets = loadPresets().filter((p) => p.name !== preset.name);
+  presets.push(preset);
+  storePresets(presets);
+  return loadPresets();
+}
+
+export function deletePreset(name: string): Preset[] {
+  storePresets(loadPresets().filter((p) => p.name !== name));
+  return loadPresets();
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiBinding, Prompt } from '../types';
+
+/**
+ * Hands out prompt ids that are never used twice, even once their prompt is
+ * deleted, since scenes and automation refer to prompts by id.
+ */
+export class PromptIdCounter {
+  private next = 0;
+
+  /** Moves past every id in `prompts`, e.g. ones just loaded. */
+  reserve(prompts: Map<string, Prompt>) {
+    for (const promptId of prompts.keys()) {
+      const suffix = Number(/^prompt-(\d+)$/.exec(promptId)?.[1] ?? -1);
+      this.next = Math.max(this.next, suffix + 1);
+    }
+  }
+
+  take(): string {
+    return `prompt-${this.next++}`;
+  }
+}
+
+/** Whether two bindings would both react to the same message. */
+function bindingsOverlap(a: MidiBinding, b: MidiBinding) {
+  return a.cc === b.cc &&
+    (a.channel === null || b.channel === null || a.channel === b.channel);
+}
+
+/**
+ * Finds a CC for a new omni binding that nothing else listens to, starting
+ * from `preferred` and wrapping around. Falls back to `preferred` when all
+ * 128 are taken.
+ */
+export function findFreeCc(taken: Iterable<MidiBinding>, preferred = 0): number {
+  const bindings = [...taken];
+  for (let i = 0; i < 128; i++) {
+    const cc = (preferred + i) % 128;
+    if (!bindings.some((b) => bindingsOverlap(b, { cc, channel: null }))) return cc;
+  }
+  return preferred;
+}
+
+/**
+ * Moves every binding in `bindings` that would react to the same CC as
+ * `learned`, other than `learned` itself, to a free CC. Returns whether any
+ * moved.
+ */
+export function releaseCc(learned: MidiBinding, bindings: MidiBinding[]): boolean {
+  let moved = false;
+  for (const binding of bindings) {
+    if (binding === learned || !bindingsOverlap(binding, learned)) continue;
+    binding.cc = findFreeCc(bindings, binding.cc);
+    moved = true;
+  }
+  return moved;
+}
+
+/** Returns a copy of the map with `movedId` placed just before `beforeId`. */
+export function movePrompt(
+  prompts: Map<string, Prompt>,
+  movedId: string,
+  beforeId: string | null,
+): Map<string, Prompt> {
+  const moved = prompts.get(movedId);
+  if (!moved || movedId === beforeId) return prompts;
+  const entries = [...prompts].filter(([id]) => id !== movedId);
+  const index = beforeId === null ? -1 : entries.findIndex(([id]) => id === beforeId);
+  entries.splice(index === -1 ? entries.length : index, 0, [movedId, moved]);
+  return new Map(entries);
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { NoteBinding, NoteMode } from '../types';
+
+/** Something loaded from a file or storage that isn't what it claims to be. */
+export class ValidationError extends Error {
+  /** `subject` names what was being loaded, e.g. "preset". */
+  constructor(subject: string, message: string) {
+    super(`Invalid ${subject}: ${message}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether a value is an integer from 0 to `max`. */
+export function isInRange(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+}
+
+export function parseJson(json: string, subject: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new ValidationError(subject, 'the file is not valid JSON.');
+  }
+}
+
+/**
+ * Checks that a file is an object of a version this build reads, and returns
+ * it with that version. The last of `versions` is the current one.
+ */
+export function checkFileVersion(
+  file: unknown,
+  subject: string,
+  versions: number[],
+): Record<string, unknown> & { version: number } {
+  if (!isRecord(file)) throw new ValidationError(subject, 'the file must contain an object.');
+  if (!versions.includes(file.version as number)) {
+    throw new ValidationError(subject, `unsupported version ${String(file.version)}, expected ${versions.at(-1)}.`);
+  }
+  return file as Record<string, unknown> & { version: number };
+}
+
+const NOTE_MODES: NoteMode[] = ['toggle', 'gate', 'velocity'];
+
+/** Validates a learned note, found at `where` in the file. */
+export function validateNoteBinding(value: unknown, where: string, subject: string): NoteBinding {
+  if (!isRecord(value)) throw new ValidationError(subject, `${where} must be an object.`);
+  const { note, channel, mode } = value;
+  if (!isInRange(note, 127)) {
+    throw new ValidationError(subject, `${where}.note must be an integer from 0 to 127.`);
+  }
+  if (channel !== null && !isInRange(channel, 15)) {
+    throw new ValidationError(subject, `${where}.channel must be null or an integer from 0 to 15.`);
+  }
+  if (!NOTE_MODES.includes(mode as NoteMode)) {
+    throw new ValidationError(subject, `${where}.mode must be one of ${NOTE_MODES.join(', ')}.`);
+  }
+  return { note, channel: channel as number | null, mode: mode as NoteMode };
+}
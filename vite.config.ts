@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MUSIC_BACKEND': JSON.stringify(env.MUSIC_BACKEND),
+        'process.env.LYRIA_BASE_URL': JSON.stringify(env.LYRIA_BASE_URL)
       },
       resolve: {
         alias: {